@@ -0,0 +1,80 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class GitlabExtendedOAuth2Api implements ICredentialType {
+	name = 'gitlabExtendedOAuth2Api';
+
+	extends = ['oAuth2Api'];
+
+	displayName = 'Gitlab Extended OAuth2 API';
+
+	documentationUrl = 'gitlab';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Grant Type',
+			name: 'grantType',
+			type: 'hidden',
+			default: 'authorizationCode',
+		},
+		{
+			displayName: 'Gitlab Server',
+			name: 'server',
+			type: 'string',
+			default: 'https://gitlab.com',
+			description: 'Base URL of your GitLab instance, for example "https://gitlab.com"',
+		},
+		{
+			displayName: 'Authorization URL',
+			name: 'authUrl',
+			type: 'hidden',
+			default: '={{$self.server.replace(new RegExp("/$"), "") + "/oauth/authorize"}}',
+			required: true,
+		},
+		{
+			displayName: 'Access Token URL',
+			name: 'accessTokenUrl',
+			type: 'hidden',
+			default: '={{$self.server.replace(new RegExp("/$"), "") + "/oauth/token"}}',
+			required: true,
+		},
+		{
+			displayName: 'Scope',
+			name: 'scope',
+			type: 'hidden',
+			default: 'api',
+		},
+		{
+			displayName: 'Auth URI Query Parameters',
+			name: 'authQueryParameters',
+			type: 'hidden',
+			default: '',
+		},
+		{
+			displayName: 'Authentication',
+			name: 'authentication',
+			type: 'hidden',
+			default: 'body',
+		},
+		{
+			displayName: 'Project owner',
+			name: 'projectOwner',
+			type: 'string',
+			default: '',
+			description: 'Namespace or owner of the project. Ignored if "Project ID" is set.',
+		},
+		{
+			displayName: 'Project name',
+			name: 'projectName',
+			type: 'string',
+			default: '',
+			description: 'Project slug or name. Ignored if "Project ID" is set.',
+		},
+		{
+			displayName: 'Project ID',
+			name: 'projectId',
+			type: 'number',
+			default: 0,
+			description: 'Numeric project ID. Takes precedence over owner and name if provided.',
+		},
+	];
+}
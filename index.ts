@@ -1,5 +1,8 @@
 import { GitlabExtended } from './nodes/GitlabExtended/GitlabExtended.node';
+import { GitlabExtendedTrigger } from './nodes/GitlabExtended/GitlabExtendedTrigger.node';
+import { GitlabExtendedPollingTrigger } from './nodes/GitlabExtended/GitlabExtendedPollingTrigger.node';
 import { GitlabExtendedApi } from './credentials/GitlabExtendedApi.credentials';
+import { GitlabExtendedOAuth2Api } from './credentials/GitlabExtendedOAuth2Api.credentials';
 
-export const nodes = [GitlabExtended];
-export const credentials = [GitlabExtendedApi];
+export const nodes = [GitlabExtended, GitlabExtendedTrigger, GitlabExtendedPollingTrigger];
+export const credentials = [GitlabExtendedApi, GitlabExtendedOAuth2Api];
@@ -1,15 +1,17 @@
 import type {
+	IBinaryData,
 	IExecuteFunctions,
 	IHookFunctions,
+	IPollFunctions,
 	IDataObject,
 	JsonObject,
 	IHttpRequestMethods,
 	IRequestOptions,
 } from 'n8n-workflow';
-import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
 
 export async function resolveCredential(
-	this: IHookFunctions | IExecuteFunctions,
+	this: IHookFunctions | IExecuteFunctions | IPollFunctions,
 	itemIndex = 0,
 ): Promise<IDataObject> {
 	const mode = this.getNodeParameter('authentication', itemIndex, 'credential') as string;
@@ -22,13 +24,16 @@ export async function resolveCredential(
 			projectId: this.getNodeParameter('projectId', itemIndex, 0) as number,
 		};
 	}
+	if (mode === 'oAuth2') {
+		return this.getCredentials('gitlabExtendedOAuth2Api');
+	}
 	return this.getCredentials('gitlabExtendedApi');
 }
 
 /**
  * Make an API request to Gitlab
  *
- * @param {IHookFunctions | IExecuteFunctions} this - The context of the function
+ * @param {IHookFunctions | IExecuteFunctions | IPollFunctions} this - The context of the function
  * @param {IHttpRequestMethods} method - The HTTP method to use for the request
  * @param {string} endpoint - The API endpoint to call
  * @param {object} body - The request body
@@ -37,7 +42,7 @@ export async function resolveCredential(
  * @returns {Promise<any>} The response from the API
  */
 export async function gitlabApiRequest(
-	this: IHookFunctions | IExecuteFunctions,
+	this: IHookFunctions | IExecuteFunctions | IPollFunctions,
 	method: IHttpRequestMethods,
 	endpoint: string,
 	body: object,
@@ -68,36 +73,176 @@ export async function gitlabApiRequest(
 		throw new NodeOperationError(this.getNode(), 'GitLab server URL is missing in credentials');
 	}
 	const host = server.replace(/\/$/, '');
-	if (!credential.accessToken) {
+	if (mode !== 'oAuth2' && !credential.accessToken) {
 		throw new NodeOperationError(this.getNode(), 'Access token is missing in GitLab credentials');
 	}
 	const baseUrl = `${host}/api/v4`;
+	const retryOptions = this.getNodeParameter('retryOptions', itemIndex, {}) as IDataObject;
+	const maxAttempts = (retryOptions?.maxAttempts as number) ?? 3;
 
-	try {
-		options.uri = `${baseUrl}${endpoint}`;
-		if (mode === 'custom') {
-			(options.headers as IDataObject)['Private-Token'] = credential.accessToken as string;
-			return await this.helpers.request.call(this, options);
+	for (let attempt = 1; ; attempt++) {
+		try {
+			options.uri = `${baseUrl}${endpoint}`;
+			if (mode === 'custom') {
+				(options.headers as IDataObject)['Private-Token'] = credential.accessToken as string;
+				return await this.helpers.request.call(this, options);
+			}
+			if (mode === 'oAuth2') {
+				return await this.helpers.requestOAuth2.call(this, 'gitlabExtendedOAuth2Api', options);
+			}
+			return await this.helpers.requestWithAuthentication.call(this, 'gitlabExtendedApi', options);
+		} catch (error) {
+			if (attempt < maxAttempts && isRetryableError(error, method, retryOptions)) {
+				await sleep(getRetryDelay(error, attempt, retryOptions));
+				continue;
+			}
+			throw toNodeApiError.call(this, error);
 		}
-		return await this.helpers.requestWithAuthentication.call(this, 'gitlabExtendedApi', options);
+	}
+}
+
+/** Wrap a failed request in a `NodeApiError` carrying GitLab's response body. */
+function toNodeApiError(
+	this: IHookFunctions | IExecuteFunctions | IPollFunctions,
+	error: unknown,
+): NodeApiError {
+	let description;
+	let message: string | undefined;
+	const responseData = (error as JsonObject as { response?: { data?: unknown } }).response?.data;
+	if (responseData !== undefined) {
+		description = typeof responseData === 'string' ? responseData : JSON.stringify(responseData);
+		message = description;
+	} else {
+		message = (error as Error).message;
+	}
+	return new NodeApiError(this.getNode(), error as JsonObject, { message, description });
+}
+
+/**
+ * Start a pipeline through the trigger API. The trigger token in the body
+ * authenticates the request, so only the server URL is taken from the
+ * credentials and no access token is sent or required.
+ *
+ * @param {IExecuteFunctions} this - The context of the function
+ * @param {string} endpoint - The trigger endpoint to call
+ * @param {IDataObject} body - The request body including the trigger token
+ * @param {number} itemIndex - The index of the current item
+ * @returns {Promise<any>} The created pipeline
+ */
+export async function gitlabTriggerRequest(
+	this: IExecuteFunctions,
+	endpoint: string,
+	body: IDataObject,
+	itemIndex = 0,
+): Promise<any> {
+	const credential = await resolveCredential.call(this, itemIndex);
+	const server = credential.server as string | undefined;
+	if (!server) {
+		throw new NodeOperationError(this.getNode(), 'GitLab server URL is missing in credentials');
+	}
+	const options: IRequestOptions = {
+		method: 'POST',
+		uri: `${server.replace(/\/$/, '')}/api/v4${endpoint}`,
+		body,
+		json: true,
+	};
+	try {
+		return await this.helpers.request.call(this, options);
 	} catch (error) {
-		let description;
-		let message: string | undefined;
-		const responseData = (error as JsonObject as { response?: { data?: unknown } }).response?.data;
-		if (responseData !== undefined) {
-			description = typeof responseData === 'string' ? responseData : JSON.stringify(responseData);
-			message = description;
-		} else {
-			message = (error as Error).message;
-		}
-		throw new NodeApiError(this.getNode(), error as JsonObject, { message, description });
+		throw toNodeApiError.call(this, error);
+	}
+}
+
+function getErrorStatus(error: IDataObject): number | undefined {
+	const response = error.response as IDataObject | undefined;
+	const status = error.httpCode ?? error.statusCode ?? response?.status;
+	return status === undefined || status === null ? undefined : Number(status);
+}
+
+function getErrorHeaders(error: IDataObject): IDataObject {
+	const response = (error.response ?? (error.cause as IDataObject)?.response) as
+		| IDataObject
+		| undefined;
+	return (response?.headers as IDataObject) ?? {};
+}
+
+/** Methods that can be repeated safely because they do not change anything. */
+const safeMethods = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a failed request should be attempted again. Rate limiting (429) is
+ * retried for every method. Server side (5xx) errors are only retried for safe
+ * methods unless `retryWrites` is set, because a proxy may report a 502 or 504
+ * after GitLab already created the commit, note or pipeline.
+ */
+function isRetryableError(
+	error: IDataObject,
+	method: IHttpRequestMethods,
+	retryOptions: IDataObject,
+): boolean {
+	const status = getErrorStatus(error);
+	if (status === 429) return true;
+	if (status === undefined || status < 500) return false;
+	return safeMethods.includes(method.toUpperCase()) || retryOptions?.retryWrites === true;
+}
+
+/**
+ * Compute how long to wait before the next attempt. `Retry-After` and
+ * `RateLimit-Reset` headers take precedence over exponential backoff.
+ *
+ * @param {IDataObject} error - The error thrown by the failed request
+ * @param {number} attempt - The number of the attempt that failed, starting at 1
+ * @param {IDataObject} retryOptions - The configured `baseDelay` and `maxDelay` in milliseconds
+ * @returns {number} The delay in milliseconds
+ */
+export function getRetryDelay(
+	error: IDataObject,
+	attempt: number,
+	retryOptions: IDataObject,
+): number {
+	const baseDelay = (retryOptions?.baseDelay as number) ?? 1000;
+	const maxDelay = (retryOptions?.maxDelay as number) ?? 60000;
+	const headers = getErrorHeaders(error);
+
+	const retryAfter = headers['retry-after'] as string | undefined;
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter);
+		const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+		if (!isNaN(delay)) return Math.min(Math.max(delay, 0), maxDelay);
 	}
+
+	const reset = headers['ratelimit-reset'] as string | undefined;
+	if (reset !== undefined && !isNaN(Number(reset))) {
+		return Math.min(Math.max(Number(reset) * 1000 - Date.now(), 0), maxDelay);
+	}
+
+	// Equal jitter: wait at least half of the exponential delay
+	const exponential = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+	return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Extract the URL of the next page from a `Link` response header.
+ */
+function getNextLink(headers: IDataObject): string | undefined {
+	const link = headers.link as string | undefined;
+	if (!link) return undefined;
+	for (const part of link.split(',')) {
+		const match = /<([^>]+)>;\s*rel="next"/.exec(part);
+		if (match) return match[1];
+	}
+	return undefined;
 }
 
 /**
  * Make an API request to Gitlab and retrieve all items
  *
- * @param {IHookFunctions | IExecuteFunctions} this - The context of the function
+ * Offset pagination is used by default. When the `paginationOptions` node
+ * parameter enables keyset pagination, the `Link: rel="next"` header is
+ * followed instead. `maxItems` and `maxPages` stop the listing early, which
+ * is the only way to bound memory since every page is collected before returning.
+ *
+ * @param {IHookFunctions | IExecuteFunctions | IPollFunctions} this - The context of the function
  * @param {IHttpRequestMethods} method - The HTTP method to use for the request
  * @param {string} endpoint - The API endpoint to call
  * @param {object} [body] - The request body
@@ -105,7 +250,7 @@ export async function gitlabApiRequest(
  * @returns {Promise<any>} The response from the API
  */
 export async function gitlabApiRequestAllItems(
-	this: IHookFunctions | IExecuteFunctions,
+	this: IHookFunctions | IExecuteFunctions | IPollFunctions,
 	method: IHttpRequestMethods,
 	endpoint: string,
 	body: any = {},
@@ -113,30 +258,135 @@ export async function gitlabApiRequestAllItems(
 	itemIndex = 0,
 ): Promise<any> {
 	const returnData: IDataObject[] = [];
+	const pagination = this.getNodeParameter('paginationOptions', itemIndex, {}) as IDataObject;
+	const keyset = pagination?.keyset === true;
+	const maxItems = (pagination?.maxItems as number) || Infinity;
+	const maxPages = (pagination?.maxPages as number) || Infinity;
 
 	let responseData;
+	let itemCount = 0;
+	let pageCount = 0;
+	let nextEndpoint: string | undefined = endpoint;
+	let pageQuery: IDataObject | undefined = query;
 
-	query.per_page = 100;
-	query.page = 1;
+	query.per_page = Math.min(100, maxItems);
+	if (keyset) {
+		query.pagination = 'keyset';
+		query.order_by = query.order_by ?? 'id';
+		query.sort = query.sort ?? 'asc';
+	} else {
+		query.page = 1;
+	}
 
 	do {
 		responseData = await gitlabApiRequest.call(
 			this,
 			method,
-			endpoint,
+			nextEndpoint,
 			body as IDataObject,
-			query,
+			pageQuery,
 			{
 				resolveWithFullResponse: true,
 			},
 			itemIndex,
 		);
-		query.page++;
-		returnData.push.apply(returnData, responseData.body as IDataObject[]);
-	} while (responseData.headers['x-next-page']);
+		pageCount++;
+		const pageItems = (responseData.body as IDataObject[]).slice(0, maxItems - itemCount);
+		itemCount += pageItems.length;
+		returnData.push.apply(returnData, pageItems);
+		if (itemCount >= maxItems || pageCount >= maxPages) break;
+
+		if (keyset) {
+			const next = getNextLink(responseData.headers as IDataObject);
+			nextEndpoint = undefined;
+			if (next) {
+				// Keep the query string as GitLab built it, so repeated keys such as `scope[]` survive
+				const url = new URL(next);
+				nextEndpoint = url.pathname.replace(/^.*?\/api\/v4/, '') + url.search;
+				pageQuery = undefined;
+			}
+		} else {
+			query.page = (query.page as number) + 1;
+			nextEndpoint = responseData.headers['x-next-page'] ? endpoint : undefined;
+		}
+	} while (nextEndpoint);
 	return returnData;
 }
 
+/**
+ * Encode a path inside a job artifacts archive segment by segment, keeping the
+ * slashes GitLab expects in artifact URLs.
+ *
+ * @param {string} path - The artifact path
+ * @returns {string} The encoded path without a leading slash
+ */
+export function encodeArtifactPath(path: string): string {
+	return path
+		.replace(/^\/+/, '')
+		.split('/')
+		.map((segment) => encodeURIComponent(segment))
+		.join('/');
+}
+
+/**
+ * Extract the file name from a `Content-Disposition` header, preferring the
+ * RFC 5987 `filename*` form when present.
+ *
+ * @param {string} [header] - The raw header value
+ * @returns {string | undefined} The file name, if the header contains one
+ */
+export function getFileNameFromContentDisposition(header?: string): string | undefined {
+	if (!header) return undefined;
+	const extended = /filename\*\s*=\s*(?:[^']*)'[^']*'([^;]+)/i.exec(header);
+	if (extended) {
+		try {
+			return decodeURIComponent(extended[1].trim());
+		} catch (error) {
+			// Fall through to the plain `filename` parameter
+		}
+	}
+	const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(header);
+	const fileName = (plain?.[1] ?? plain?.[2])?.trim();
+	return fileName || undefined;
+}
+
+/**
+ * Download a file from the GitLab API and convert it to n8n binary data
+ *
+ * @param {IExecuteFunctions} this - The context of the function
+ * @param {string} endpoint - The API endpoint to call
+ * @param {IDataObject} query - The query parameters
+ * @param {string} fallbackFileName - File name used when the response has no `Content-Disposition`
+ * @param {number} itemIndex - The index of the current item
+ * @returns {Promise<IBinaryData>} The prepared binary data
+ */
+export async function gitlabApiDownload(
+	this: IExecuteFunctions,
+	endpoint: string,
+	query: IDataObject,
+	fallbackFileName: string,
+	itemIndex = 0,
+): Promise<IBinaryData> {
+	const response = await gitlabApiRequest.call(
+		this,
+		'GET',
+		endpoint,
+		{},
+		query,
+		{ json: false, encoding: null, resolveWithFullResponse: true },
+		itemIndex,
+	);
+	const headers = (response.headers ?? {}) as IDataObject;
+	const fileName =
+		getFileNameFromContentDisposition(headers['content-disposition'] as string | undefined) ??
+		fallbackFileName;
+	return await this.helpers.prepareBinaryData(
+		Buffer.from(response.body as Buffer),
+		fileName,
+		headers['content-type'] as string | undefined,
+	);
+}
+
 /**
  * Build the base URL for a project
  *
@@ -155,7 +405,7 @@ export function buildProjectBase(cred: IDataObject): string {
  * Ensure credentials contain enough information to identify a project.
  */
 export function assertValidProjectCredentials(
-	this: IHookFunctions | IExecuteFunctions,
+	this: IHookFunctions | IExecuteFunctions | IPollFunctions,
 	cred: IDataObject,
 ): void {
 	if (!cred.projectId) {
@@ -210,3 +460,36 @@ export function addOptionalStringParam(
 		body[bodyKey] = value;
 	}
 }
+
+/**
+ * Parse a comma-separated list of numeric IDs, e.g. `'4, 8'`.
+ *
+ * @param {string | number} value - The list entered by the user
+ * @returns {number[]} The IDs, or an empty array when the list is empty
+ */
+export function parseIdList(value: string | number): number[] {
+	return String(value)
+		.split(',')
+		.map((id) => id.trim())
+		.filter((id) => id !== '')
+		.map(Number);
+}
+
+/**
+ * Build the JSON emitted for an item that failed while errors are being
+ * collected instead of stopping the execution.
+ *
+ * @param {Error} error - The error thrown while processing the item
+ * @param {number} itemIndex - The index of the failed item
+ * @returns {IDataObject} The error details including the GitLab status and message
+ */
+export function buildErrorData(error: Error, itemIndex: number): IDataObject {
+	const httpCode = (error as NodeApiError).httpCode;
+	const data = (error as NodeApiError).context?.data as IDataObject | undefined;
+	return {
+		error: error.message,
+		statusCode: httpCode ? Number(httpCode) : null,
+		gitlabMessage: data?.message ?? data?.error ?? null,
+		itemIndex,
+	};
+}
@@ -14,13 +14,19 @@ import {
 	buildProjectBase,
 	assertValidProjectCredentials,
 	addOptionalStringParam,
+	buildErrorData,
 	resolveCredential,
 } from './GenericFunctions';
 import { requirePositive } from './validators';
 import { handleBranch } from './resources/branch';
 import { handlePipeline } from './resources/pipeline';
+import { handleCommit } from './resources/commit';
 import { handleFile } from './resources/file';
+import { handleIssue } from './resources/issue';
+import { handleJob } from './resources/job';
 import { handleMergeRequest } from './resources/mergeRequest';
+import { semverRelease } from './resources/release';
+import { handleRepository } from './resources/repository';
 import { branchOperations } from './operations';
 
 export class GitlabExtended implements INodeType {
@@ -35,11 +41,17 @@ export class GitlabExtended implements INodeType {
 		subtitle: '={{$parameter.resource}} {{$parameter.operation}}',
 		usableAsTool: true,
 		inputs: [NodeConnectionType.Main],
-		outputs: [NodeConnectionType.Main],
+		outputs: `={{$parameter["errorOutput"] ? [{ "type": "${NodeConnectionType.Main}", "displayName": "Success" }, { "type": "${NodeConnectionType.Main}", "displayName": "Errors" }] : ["${NodeConnectionType.Main}"]}}`,
 		credentials: [
 			{
 				name: 'gitlabExtendedApi',
 				required: false,
+				displayOptions: { show: { authentication: ['credential'] } },
+			},
+			{
+				name: 'gitlabExtendedOAuth2Api',
+				required: true,
+				displayOptions: { show: { authentication: ['oAuth2'] } },
 			},
 		],
 		properties: [
@@ -50,6 +62,7 @@ export class GitlabExtended implements INodeType {
 				options: [
 					{ name: 'Credential', value: 'credential' },
 					{ name: 'Custom', value: 'custom' },
+					{ name: 'OAuth2', value: 'oAuth2' },
 				],
 				default: 'credential',
 				description: 'Select whether to use saved credentials or custom fields for this node',
@@ -103,14 +116,17 @@ export class GitlabExtended implements INodeType {
 				description: "Choose the resource to work with, for example 'file' or 'pipeline'",
 				options: [
 					{ name: 'Branch', value: 'branch' },
+					{ name: 'Commit', value: 'commit' },
 					{ name: 'File', value: 'file' },
 					{ name: 'Group', value: 'group' },
 					{ name: 'Issue', value: 'issue' },
+					{ name: 'Job', value: 'job' },
 					{ name: 'Merge Request', value: 'mergeRequest' },
 					{ name: 'Pipeline', value: 'pipeline' },
 					{ name: 'Project', value: 'project' },
 					{ name: 'Raw API', value: 'raw' },
 					{ name: 'Release', value: 'release' },
+					{ name: 'Repository', value: 'repository' },
 					{ name: 'Tag', value: 'tag' },
 				],
 				default: 'branch',
@@ -138,14 +154,46 @@ export class GitlabExtended implements INodeType {
 					{ name: 'Cancel', value: 'cancel', action: 'Cancel a pipeline' },
 					{ name: 'Create', value: 'create', action: 'Create a pipeline' },
 					{ name: 'Delete', value: 'delete', action: 'Delete a pipeline' },
-					{ name: 'Download Artifacts', value: 'downloadArtifacts', action: 'Download artifacts' },
+					{
+						name: 'Download Artifacts',
+						value: 'downloadArtifacts',
+						action: 'Download job artifacts for a ref',
+					},
 					{ name: 'Get', value: 'get', action: 'Get a pipeline' },
 					{ name: 'Get Jobs', value: 'getJobs', action: 'List pipeline jobs' },
 					{ name: 'Get Many', value: 'getAll', action: 'List pipelines' },
 					{ name: 'Retry', value: 'retry', action: 'Retry a pipeline' },
+					{
+						name: 'Wait for Completion',
+						value: 'waitForCompletion',
+						action: 'Wait for a pipeline to finish',
+					},
 				],
 				default: 'create',
 			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: { show: { resource: ['job'] } },
+				description: "Select how to manage CI jobs, like using 'getLog' to read a job's output",
+				options: [
+					{ name: 'Cancel', value: 'cancel', action: 'Cancel a job' },
+					{
+						name: 'Download Artifact',
+						value: 'downloadArtifact',
+						action: 'Download a job artifact file',
+					},
+					{ name: 'Erase', value: 'erase', action: 'Erase a job' },
+					{ name: 'Get', value: 'get', action: 'Get a job' },
+					{ name: 'Get Log', value: 'getLog', action: 'Get a job log' },
+					{ name: 'Get Many', value: 'getAll', action: 'List jobs' },
+					{ name: 'Play', value: 'play', action: 'Play a manual job' },
+					{ name: 'Retry', value: 'retry', action: 'Retry a job' },
+				],
+				default: 'get',
+			},
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -173,10 +221,43 @@ export class GitlabExtended implements INodeType {
 					{ name: 'Delete', value: 'delete', action: 'Delete a release' },
 					{ name: 'Get', value: 'get', action: 'Get a release' },
 					{ name: 'Get Many', value: 'getAll', action: 'List releases' },
+					{
+						name: 'Semantic Version Release',
+						value: 'semverRelease',
+						action: 'Tag and release the next semantic version',
+					},
 					{ name: 'Update', value: 'update', action: 'Update a release' },
 				],
 				default: 'create',
 			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: { show: { resource: ['repository'] } },
+				description: "Select a repository operation, like 'compare' to diff two refs",
+				options: [
+					{
+						name: 'Commit Changelog',
+						value: 'commitChangelog',
+						action: 'Add changelog data to a changelog file',
+					},
+					{ name: 'Compare', value: 'compare', action: 'Compare two refs' },
+					{
+						name: 'Download Archive',
+						value: 'downloadArchive',
+						action: 'Download a repository archive',
+					},
+					{
+						name: 'Generate Changelog',
+						value: 'generateChangelog',
+						action: 'Generate changelog data',
+					},
+					{ name: 'Get Contributors', value: 'getContributors', action: 'List contributors' },
+				],
+				default: 'compare',
+			},
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -207,6 +288,32 @@ export class GitlabExtended implements INodeType {
 				],
 				default: 'get',
 			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: { show: { resource: ['commit'] } },
+				description:
+					"Select how to work with commits, such as 'create' to commit several files at once",
+				options: [
+					{ name: 'Cherry-Pick', value: 'cherryPick', action: 'Cherry pick a commit' },
+					{ name: 'Create', value: 'create', action: 'Create a commit' },
+					{ name: 'Create Comment', value: 'createComment', action: 'Comment on a commit' },
+					{ name: 'Get', value: 'get', action: 'Get a commit' },
+					{ name: 'Get Diff', value: 'getDiff', action: 'Get the diff of a commit' },
+					{ name: 'Get Many', value: 'getAll', action: 'List commits' },
+					{
+						name: 'Get Refs',
+						value: 'getRefs',
+						action: 'List branches and tags containing a commit',
+					},
+					{ name: 'Get Statuses', value: 'getStatuses', action: 'List commit statuses' },
+					{ name: 'Revert', value: 'revert', action: 'Revert a commit' },
+					{ name: 'Set Status', value: 'setStatus', action: 'Set a commit status' },
+				],
+				default: 'create',
+			},
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -219,6 +326,7 @@ export class GitlabExtended implements INodeType {
 					{ name: 'Create', value: 'create', action: 'Create a file' },
 					{ name: 'Delete', value: 'delete', action: 'Delete a file' },
 					{ name: 'Get', value: 'get', action: 'Get a file' },
+					{ name: 'Get Raw', value: 'getRaw', action: 'Download a raw file' },
 					{ name: 'List', value: 'list', action: 'List files' },
 					{ name: 'Update', value: 'update', action: 'Update a file' },
 				],
@@ -232,12 +340,34 @@ export class GitlabExtended implements INodeType {
 				displayOptions: { show: { resource: ['issue'] } },
 				description: "Select how to handle issues, for example choose 'create' to open a new issue",
 				options: [
+					{ name: 'Add Spent Time', value: 'addSpentTime', action: 'Add spent time to an issue' },
+					{ name: 'Clone', value: 'clone', action: 'Clone an issue to another project' },
 					{ name: 'Close', value: 'close', action: 'Close an issue' },
 					{ name: 'Create', value: 'create', action: 'Create an issue' },
+					{ name: 'Create Link', value: 'createLink', action: 'Link two issues' },
+					{ name: 'Create Note', value: 'createNote', action: 'Comment on an issue' },
+					{ name: 'Delete Link', value: 'deleteLink', action: 'Delete an issue link' },
+					{ name: 'Delete Note', value: 'deleteNote', action: 'Delete an issue note' },
 					{ name: 'Get', value: 'get', action: 'Get an issue' },
+					{ name: 'Get Links', value: 'getLinks', action: 'List linked issues' },
 					{ name: 'Get Many', value: 'getAll', action: 'List issues' },
+					{ name: 'Get Notes', value: 'getNotes', action: 'List issue notes' },
+					{
+						name: 'Get Time Stats',
+						value: 'getTimeStats',
+						action: 'Get time tracking stats of an issue',
+					},
+					{ name: 'Move', value: 'move', action: 'Move an issue to another project' },
 					{ name: 'Reopen', value: 'reopen', action: 'Reopen an issue' },
+					{ name: 'Reset Spent Time', value: 'resetSpentTime', action: 'Reset spent time' },
+					{
+						name: 'Reset Time Estimate',
+						value: 'resetTimeEstimate',
+						action: 'Reset the time estimate',
+					},
+					{ name: 'Set Time Estimate', value: 'setTimeEstimate', action: 'Set the time estimate' },
 					{ name: 'Update', value: 'update', action: 'Update an issue' },
+					{ name: 'Update Note', value: 'updateNote', action: 'Update an issue note' },
 				],
 				default: 'create',
 			},
@@ -250,9 +380,31 @@ export class GitlabExtended implements INodeType {
 				description:
 					"Choose an action on merge requests, such as 'create' to start a merge request",
 				options: [
+					{
+						name: 'Apply Suggestions',
+						value: 'applySuggestions',
+						action: 'Apply code suggestions',
+					},
+					{ name: 'Approve', value: 'approve', action: 'Approve a merge request' },
+					{ name: 'Cancel Auto-Merge', value: 'cancelAutoMerge', action: 'Cancel auto merge' },
 					{ name: 'Close', value: 'close', action: 'Close a merge request' },
 					{ name: 'Create', value: 'create', action: 'Create a merge request' },
+					{
+						name: 'Create Approval Rule',
+						value: 'createApprovalRule',
+						action: 'Create an approval rule',
+					},
 					{ name: 'Create Note', value: 'createNote', action: 'Create a note' },
+					{
+						name: 'Create Pipeline',
+						value: 'createPipeline',
+						action: 'Create a merge request pipeline',
+					},
+					{
+						name: 'Delete Approval Rule',
+						value: 'deleteApprovalRule',
+						action: 'Delete an approval rule',
+					},
 					{ name: 'Delete Discussion', value: 'deleteDiscussion', action: 'Delete a discussion' },
 					{
 						name: 'Delete Discussion Note',
@@ -261,11 +413,36 @@ export class GitlabExtended implements INodeType {
 					},
 					{ name: 'Delete Note', value: 'deleteNote', action: 'Delete a note' },
 					{ name: 'Get', value: 'get', action: 'Get a merge request' },
+					{ name: 'Get Approval Rules', value: 'getApprovalRules', action: 'List approval rules' },
+					{
+						name: 'Get Approval State',
+						value: 'getApprovalState',
+						action: 'Get the approval state of a merge request',
+					},
 					{ name: 'Get Changes', value: 'getChanges', action: 'Get merge request changes' },
+					{
+						name: 'Get Closed Issues',
+						value: 'getClosesIssues',
+						action: 'List issues closed on merge',
+					},
+					{ name: 'Get Commits', value: 'getCommits', action: 'List merge request commits' },
 					{ name: 'Get Discussion', value: 'getDiscussion', action: 'Get a discussion by ID' },
 					{ name: 'Get Discussions', value: 'getDiscussions', action: 'List discussions' },
 					{ name: 'Get Many', value: 'getAll', action: 'List merge requests' },
 					{ name: 'Get Note', value: 'getNote', action: 'Get a note' },
+					{ name: 'Get Participants', value: 'getParticipants', action: 'List participants' },
+					{
+						name: 'Get Pipelines',
+						value: 'getPipelines',
+						action: 'List merge request pipelines',
+					},
+					{
+						name: 'Get Reviewers',
+						value: 'getReviewers',
+						action: 'List reviewers and their state',
+					},
+					{ name: 'Get Version', value: 'getVersion', action: 'Get a diff version' },
+					{ name: 'Get Versions', value: 'getVersions', action: 'List diff versions' },
 					{ name: 'Labels', value: 'labels', action: 'Add or remove labels' },
 					{ name: 'Merge', value: 'merge', action: 'Merge a merge request' },
 					{
@@ -273,13 +450,30 @@ export class GitlabExtended implements INodeType {
 						value: 'postDiscussionNote',
 						action: 'Post to discussion',
 					},
+					{
+						name: 'Post Review',
+						value: 'postReview',
+						action: 'Post many inline review comments',
+					},
 					{ name: 'Rebase', value: 'rebase', action: 'Rebase a merge request' },
 					{ name: 'Reopen', value: 'reopen', action: 'Reopen a merge request' },
+					{
+						name: 'Reset Approvals',
+						value: 'resetApprovals',
+						action: 'Reset approvals of a merge request',
+					},
 					{
 						name: 'Resolve Discussion',
 						value: 'resolveDiscussion',
 						action: 'Resolve a discussion',
 					},
+					{ name: 'Unapprove', value: 'unapprove', action: 'Unapprove a merge request' },
+					{ name: 'Update', value: 'update', action: 'Update a merge request' },
+					{
+						name: 'Update Approval Rule',
+						value: 'updateApprovalRule',
+						action: 'Update an approval rule',
+					},
 					{ name: 'Update Discussion', value: 'updateDiscussion', action: 'Update a discussion' },
 					{
 						name: 'Update Discussion Note',
@@ -381,12 +575,182 @@ export class GitlabExtended implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['pipeline'],
-						operation: ['get', 'cancel', 'retry', 'getJobs', 'delete', 'downloadArtifacts'],
+						operation: ['get', 'cancel', 'retry', 'getJobs', 'delete'],
 					},
 				},
 				description: 'Numeric ID of the pipeline (must be positive)',
 				default: 1,
 			},
+			{
+				displayName: 'Pipeline',
+				name: 'waitPipelineSource',
+				type: 'options',
+				displayOptions: { show: { resource: ['pipeline'], operation: ['waitForCompletion'] } },
+				options: [
+					{
+						name: 'Trigger New Pipeline',
+						value: 'trigger',
+						description: 'Start a pipeline with the settings below and wait for it',
+					},
+					{
+						name: 'Use Existing Pipeline',
+						value: 'existing',
+						description: 'Wait for a pipeline that is already running',
+					},
+				],
+				description: 'Whether to start a new pipeline or wait for an existing one',
+				default: 'trigger',
+			},
+			{
+				displayName: 'Pipeline ID',
+				name: 'pipelineId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['pipeline'],
+						operation: ['waitForCompletion'],
+						waitPipelineSource: ['existing'],
+					},
+				},
+				description: 'Numeric ID of the pipeline to wait for (must be positive)',
+				default: 1,
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['pipeline'], operation: ['waitForCompletion'] } },
+				description: 'How long to wait between status checks',
+				default: 10,
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'waitTimeout',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['pipeline'], operation: ['waitForCompletion'] } },
+				description: 'Fail the item when the pipeline has not finished after this many seconds',
+				default: 3600,
+			},
+			{
+				displayName: 'Fail If Not Successful',
+				name: 'failOnNonSuccess',
+				type: 'boolean',
+				displayOptions: { show: { resource: ['pipeline'], operation: ['waitForCompletion'] } },
+				description:
+					'Whether to fail the item when the pipeline finishes with a status other than success',
+				default: false,
+			},
+			{
+				displayName: 'Job ID',
+				name: 'jobId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['job'],
+						operation: ['get', 'getLog', 'play', 'retry', 'cancel', 'erase', 'downloadArtifact'],
+					},
+				},
+				description: 'Numeric ID of the job (must be positive)',
+				default: 1,
+			},
+			{
+				displayName: 'Scope',
+				name: 'jobScope',
+				type: 'multiOptions',
+				displayOptions: { show: { resource: ['job'], operation: ['getAll'] } },
+				options: [
+					{ name: 'Canceled', value: 'canceled' },
+					{ name: 'Created', value: 'created' },
+					{ name: 'Failed', value: 'failed' },
+					{ name: 'Manual', value: 'manual' },
+					{ name: 'Pending', value: 'pending' },
+					{ name: 'Running', value: 'running' },
+					{ name: 'Skipped', value: 'skipped' },
+					{ name: 'Success', value: 'success' },
+					{ name: 'Waiting for Resource', value: 'waiting_for_resource' },
+				],
+				description: 'Only return jobs with these statuses. Leave empty to return all jobs.',
+				default: [],
+			},
+			{
+				displayName: 'Job Variables',
+				name: 'jobVariables',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				placeholder: 'Add Variable',
+				displayOptions: { show: { resource: ['job'], operation: ['play'] } },
+				description: 'Variables passed to the manual job when it is played',
+				default: {},
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variable',
+						values: [
+							{
+								displayName: 'Key',
+								name: 'key',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Artifact Path',
+				name: 'artifactPath',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['job'], operation: ['downloadArtifact'] } },
+				description:
+					"Path of the file inside the job's artifacts archive, e.g. 'coverage/report.xml'",
+				default: '',
+			},
+			{
+				displayName: 'Job Name',
+				name: 'artifactJobName',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['pipeline'], operation: ['downloadArtifacts'] } },
+				description:
+					'Name of the job whose artifacts are downloaded from the latest successful pipeline for the ref',
+				default: '',
+			},
+			{
+				displayName: 'Artifact Path',
+				name: 'artifactPath',
+				type: 'string',
+				displayOptions: { show: { resource: ['pipeline'], operation: ['downloadArtifacts'] } },
+				description:
+					"Path of a single file to extract from the artifacts archive, e.g. 'coverage/report.xml'. Leave empty to download the whole archive.",
+				default: '',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['file', 'job', 'pipeline', 'repository'],
+						operation: ['downloadArtifact', 'downloadArtifacts', 'downloadArchive', 'getRaw'],
+					},
+				},
+				description: 'Name of the binary property the downloaded file is written to',
+				default: 'data',
+			},
 			{
 				displayName: 'Return All',
 				name: 'returnAll',
@@ -396,6 +760,9 @@ export class GitlabExtended implements INodeType {
 						resource: [
 							'branch',
 							'pipeline',
+							'job',
+							'commit',
+							'repository',
 							'file',
 							'mergeRequest',
 							'issue',
@@ -403,7 +770,22 @@ export class GitlabExtended implements INodeType {
 							'tag',
 							'release',
 						],
-						operation: ['getAll', 'list', 'getDiscussions', 'getJobs', 'getMembers'],
+						operation: [
+							'getAll',
+							'list',
+							'getDiscussions',
+							'getJobs',
+							'getMembers',
+							'getDiff',
+							'getStatuses',
+							'getContributors',
+							'getNotes',
+							'getPipelines',
+							'getCommits',
+							'getVersions',
+							'getClosesIssues',
+							'getParticipants',
+						],
 					},
 				},
 				default: false,
@@ -418,6 +800,9 @@ export class GitlabExtended implements INodeType {
 						resource: [
 							'branch',
 							'pipeline',
+							'job',
+							'commit',
+							'repository',
 							'file',
 							'mergeRequest',
 							'issue',
@@ -425,7 +810,22 @@ export class GitlabExtended implements INodeType {
 							'tag',
 							'release',
 						],
-						operation: ['getAll', 'list', 'getDiscussions', 'getJobs', 'getMembers'],
+						operation: [
+							'getAll',
+							'list',
+							'getDiscussions',
+							'getJobs',
+							'getMembers',
+							'getDiff',
+							'getStatuses',
+							'getContributors',
+							'getNotes',
+							'getPipelines',
+							'getCommits',
+							'getVersions',
+							'getClosesIssues',
+							'getParticipants',
+						],
 						returnAll: [false],
 					},
 				},
@@ -435,308 +835,1571 @@ export class GitlabExtended implements INodeType {
 				default: 50,
 				description: 'Max number of results to return',
 			},
+			{
+				displayName: 'Pagination Options',
+				name: 'paginationOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { returnAll: [true] } },
+				description: 'How all results are fetched when returning every page',
+				default: {},
+				options: [
+					{
+						displayName: 'Keyset Pagination',
+						name: 'keyset',
+						type: 'boolean',
+						description:
+							'Whether to use keyset pagination and follow the Link header, which GitLab requires past 50,000 records on endpoints such as project listing',
+						default: false,
+					},
+					{
+						displayName: 'Max Items',
+						name: 'maxItems',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						description: 'Stop fetching once this many items were received',
+						default: 1000,
+					},
+					{
+						displayName: 'Max Pages',
+						name: 'maxPages',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						description: 'Stop fetching after this many pages',
+						default: 10,
+					},
+				],
+			},
 			{
 				displayName: 'Ref',
 				name: 'pipelineRef',
 				type: 'string',
 				displayOptions: {
-					show: { resource: ['pipeline'], operation: ['create', 'downloadArtifacts'] },
+					show: {
+						resource: ['pipeline'],
+						operation: ['create', 'downloadArtifacts', 'waitForCompletion'],
+					},
+					hide: { waitPipelineSource: ['existing'] },
 				},
-				description: "Branch or tag that triggers the pipeline, such as 'main'",
+				description:
+					"Branch or tag that triggers the pipeline or whose latest successful pipeline provides the artifacts, such as 'main'",
 				default: 'main',
 			},
 			{
-				displayName: 'Tag Name',
-				name: 'tagName',
+				displayName: 'Use Trigger Token',
+				name: 'useTriggerToken',
+				type: 'boolean',
+				displayOptions: {
+					show: { resource: ['pipeline'], operation: ['create', 'waitForCompletion'] },
+					hide: { waitPipelineSource: ['existing'] },
+				},
+				description:
+					'Whether to start the pipeline through the trigger API with a pipeline trigger token instead of the configured credentials',
+				default: false,
+			},
+			{
+				displayName: 'Trigger Token',
+				name: 'triggerToken',
 				type: 'string',
+				typeOptions: { password: true },
 				required: true,
 				displayOptions: {
 					show: {
-						resource: ['tag'],
-						operation: ['create', 'get', 'delete'],
+						resource: ['pipeline'],
+						operation: ['create', 'waitForCompletion'],
+						useTriggerToken: [true],
 					},
+					hide: { waitPipelineSource: ['existing'] },
 				},
-				description: 'Name of the tag',
+				description:
+					'Pipeline trigger token created under Settings > CI/CD > Pipeline trigger tokens',
 				default: '',
 			},
 			{
-				displayName: 'Message',
-				name: 'message',
-				type: 'string',
-				displayOptions: { show: { resource: ['tag'], operation: ['create'] } },
-				description: 'Optional message for the tag',
-				default: '',
+				displayName: 'Variables',
+				name: 'pipelineVariables',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				placeholder: 'Add Variable',
+				displayOptions: {
+					show: { resource: ['pipeline'], operation: ['create', 'waitForCompletion'] },
+					hide: { waitPipelineSource: ['existing'] },
+				},
+				description: 'CI/CD variables available to the pipeline',
+				default: {},
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variable',
+						values: [
+							{
+								displayName: 'Key',
+								name: 'key',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Type',
+								name: 'variableType',
+								type: 'options',
+								options: [
+									{ name: 'Environment Variable', value: 'env_var' },
+									{ name: 'File', value: 'file' },
+								],
+								description:
+									'How the variable is exposed to jobs. The trigger API only supports environment variables.',
+								default: 'env_var',
+							},
+						],
+					},
+				],
 			},
 			{
-				displayName: 'Tag Name',
-				name: 'tagName',
-				type: 'string',
-				required: true,
+				displayName: 'Inputs',
+				name: 'pipelineInputs',
+				type: 'json',
 				displayOptions: {
-					show: {
-						resource: ['release'],
-						operation: ['create', 'update', 'get', 'delete'],
-					},
+					show: { resource: ['pipeline'], operation: ['create', 'waitForCompletion'] },
+					hide: { waitPipelineSource: ['existing'] },
 				},
-				description: 'Release tag name',
+				description:
+					'Values for the `spec:inputs` of the pipeline configuration as JSON, e.g. \'{"environment":"staging"}\'',
 				default: '',
 			},
 			{
-				displayName: 'Name',
-				name: 'name',
+				displayName: 'From',
+				name: 'compareFrom',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['release'], operation: ['create', 'update'] } },
-				description: 'Release name',
+				displayOptions: { show: { resource: ['repository'], operation: ['compare'] } },
+				description: 'Commit SHA, branch or tag to compare from',
 				default: '',
 			},
 			{
-				displayName: 'Description',
-				name: 'releaseDescription',
+				displayName: 'To',
+				name: 'compareTo',
 				type: 'string',
-				displayOptions: { show: { resource: ['release'], operation: ['create', 'update'] } },
-				description: 'Release description',
+				required: true,
+				displayOptions: { show: { resource: ['repository'], operation: ['compare'] } },
+				description: 'Commit SHA, branch or tag to compare to',
 				default: '',
 			},
 			{
-				displayName: 'Assets',
-				name: 'assets',
-				type: 'json',
-				displayOptions: { show: { resource: ['release'], operation: ['create', 'update'] } },
-				description: 'JSON with assets links',
-				default: '',
+				displayName: 'Straight',
+				name: 'compareStraight',
+				type: 'boolean',
+				displayOptions: { show: { resource: ['repository'], operation: ['compare'] } },
+				description:
+					'Whether to compare the refs directly (from..to) instead of from their merge base (from...to)',
+				default: false,
 			},
 			{
-				displayName: 'Source Branch',
-				name: 'source',
+				displayName: 'Format',
+				name: 'archiveFormat',
+				type: 'options',
+				displayOptions: { show: { resource: ['repository'], operation: ['downloadArchive'] } },
+				options: [
+					{ name: 'Tar', value: 'tar' },
+					{ name: 'Tar.bz2', value: 'tar.bz2' },
+					{ name: 'Tar.gz', value: 'tar.gz' },
+					{ name: 'Zip', value: 'zip' },
+				],
+				description: 'Archive format to download',
+				default: 'tar.gz',
+			},
+			{
+				displayName: 'Ref',
+				name: 'archiveSha',
 				type: 'string',
-				required: true,
-				displayOptions: { show: { resource: ['mergeRequest'], operation: ['create'] } },
-				description: "Source branch name, e.g. 'feature/api'",
+				displayOptions: { show: { resource: ['repository'], operation: ['downloadArchive'] } },
+				description: 'Commit SHA, branch or tag to archive. Leave empty to use the default branch.',
 				default: '',
 			},
 			{
-				displayName: 'Target Branch',
-				name: 'target',
+				displayName: 'Path',
+				name: 'archivePath',
 				type: 'string',
-				required: true,
-				displayOptions: { show: { resource: ['mergeRequest'], operation: ['create'] } },
-				description: "Target branch name, e.g. 'main'",
-				default: 'main',
+				displayOptions: { show: { resource: ['repository'], operation: ['downloadArchive'] } },
+				description: 'Only archive this subdirectory of the repository',
+				default: '',
 			},
 			{
-				displayName: 'Path',
-				name: 'path',
+				displayName: 'Version',
+				name: 'changelogVersion',
 				type: 'string',
 				required: true,
 				displayOptions: {
-					show: { resource: ['file'], operation: ['get', 'list', 'create', 'update', 'delete'] },
+					show: {
+						resource: ['repository'],
+						operation: ['generateChangelog', 'commitChangelog'],
+					},
 				},
-				description: "Path to the file, for example 'src/index.ts'",
+				description: "Version to generate the changelog for, e.g. '1.2.0'",
 				default: '',
 			},
 			{
-				displayName: 'Reference',
-				name: 'fileRef',
-				type: 'string',
-				displayOptions: { show: { resource: ['file'], operation: ['get', 'list'] } },
-				description: "Reference such as a branch or commit SHA, e.g. 'main'",
-				default: 'main',
+				displayName: 'Options',
+				name: 'changelogOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['repository'],
+						operation: ['generateChangelog', 'commitChangelog'],
+					},
+				},
+				description: 'Range and formatting of the changelog',
+				default: {},
+				options: [
+					{
+						displayName: 'Branch',
+						name: 'branch',
+						type: 'string',
+						default: '',
+						description:
+							'Branch the changelog file is committed to. Only used by Commit Changelog.',
+					},
+					{
+						displayName: 'Config File',
+						name: 'configFile',
+						type: 'string',
+						default: '',
+						description:
+							"Path of the changelog configuration file, e.g. '.gitlab/changelog_config.yml'",
+					},
+					{
+						displayName: 'Date',
+						name: 'date',
+						type: 'dateTime',
+						default: '',
+						description: 'Release date shown in the changelog',
+					},
+					{
+						displayName: 'File',
+						name: 'file',
+						type: 'string',
+						default: '',
+						description: 'Changelog file to update. Only used by Commit Changelog.',
+					},
+					{
+						displayName: 'From',
+						name: 'from',
+						type: 'string',
+						default: '',
+						description:
+							'Start of the commit range (exclusive), usually the previous tag. Defaults to the latest tag before the version.',
+					},
+					{
+						displayName: 'Message',
+						name: 'message',
+						type: 'string',
+						default: '',
+						description: 'Commit message. Only used by Commit Changelog.',
+					},
+					{
+						displayName: 'To',
+						name: 'to',
+						type: 'string',
+						default: '',
+						description: 'End of the commit range (inclusive). Defaults to the default branch.',
+					},
+					{
+						displayName: 'Trailer',
+						name: 'trailer',
+						type: 'string',
+						default: '',
+						description: "Git trailer used to include commits, e.g. 'Changelog'",
+					},
+				],
 			},
 			{
-				displayName: 'Branch',
-				name: 'fileBranch',
+				displayName: 'Tag Name',
+				name: 'tagName',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['file'], operation: ['create', 'update', 'delete'] } },
-				description: 'Branch to commit to',
-				default: 'main',
+				displayOptions: {
+					show: {
+						resource: ['tag'],
+						operation: ['create', 'get', 'delete'],
+					},
+				},
+				description: 'Name of the tag',
+				default: '',
 			},
 			{
-				displayName: 'Commit Message',
-				name: 'commitMessage',
+				displayName: 'Message',
+				name: 'message',
 				type: 'string',
-				required: true,
-				displayOptions: { show: { resource: ['file'], operation: ['create', 'update', 'delete'] } },
-				description: 'Commit message for the change',
+				displayOptions: { show: { resource: ['tag'], operation: ['create'] } },
+				description: 'Optional message for the tag',
 				default: '',
 			},
 			{
-				displayName: 'Content',
-				name: 'fileContent',
+				displayName: 'Tag Name',
+				name: 'tagName',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['file'], operation: ['create', 'update'] } },
-				description: 'File content',
+				displayOptions: {
+					show: {
+						resource: ['release'],
+						operation: ['create', 'update', 'get', 'delete'],
+					},
+				},
+				description: 'Release tag name',
 				default: '',
 			},
 			{
-				displayName: 'Group ID',
-				name: 'groupId',
-				type: 'number',
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
 				required: true,
-				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['release'], operation: ['create', 'update'] } },
+				description: 'Release name',
+				default: '',
+			},
+			{
+				displayName: 'Description',
+				name: 'releaseDescription',
+				type: 'string',
 				displayOptions: {
-					show: { resource: ['group'], operation: ['get', 'delete', 'getMembers'] },
+					show: { resource: ['release'], operation: ['create', 'update', 'semverRelease'] },
 				},
-				description: 'Numeric ID of the group',
-				default: 1,
+				description: 'Release description',
+				default: '',
 			},
 			{
-				displayName: 'Group Name',
-				name: 'groupName',
-				type: 'string',
-				required: true,
-				displayOptions: { show: { resource: ['group'], operation: ['create'] } },
-				description: 'Name of the new group',
+				displayName: 'Assets',
+				name: 'assets',
+				type: 'json',
+				displayOptions: {
+					show: { resource: ['release'], operation: ['create', 'update', 'semverRelease'] },
+				},
+				description: 'JSON with assets links',
 				default: '',
 			},
 			{
-				displayName: 'Group Path',
-				name: 'groupPath',
+				displayName: 'Ref',
+				name: 'releaseRef',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['group'], operation: ['create'] } },
-				description: 'URL path of the new group',
-				default: '',
+				displayOptions: { show: { resource: ['release'], operation: ['semverRelease'] } },
+				description: 'Branch or commit SHA the new version tag is created from',
+				default: 'main',
 			},
 			{
-				displayName: 'Parent ID',
-				name: 'parentId',
-				type: 'number',
-				typeOptions: { minValue: 1 },
-				displayOptions: { show: { resource: ['group'], operation: ['create'] } },
-				description: 'Numeric ID of the parent group',
-				default: 0,
+				displayName: 'Bump',
+				name: 'semverBump',
+				type: 'options',
+				displayOptions: { show: { resource: ['release'], operation: ['semverRelease'] } },
+				options: [
+					{
+						name: 'From Conventional Commits',
+						value: 'auto',
+						description:
+							'Major for breaking changes, minor for feat and patch for fix or perf commits since the latest tag',
+					},
+					{ name: 'Major', value: 'major' },
+					{ name: 'Minor', value: 'minor' },
+					{ name: 'Patch', value: 'patch' },
+					{
+						name: 'Prerelease',
+						value: 'prerelease',
+						description: "Start or continue a prerelease, e.g. '1.3.0-rc.0' to '1.3.0-rc.1'",
+					},
+				],
+				description: 'How the next version is derived from the latest semantic version tag',
+				default: 'auto',
 			},
 			{
-				displayName: 'Project ID',
-				name: 'projectId',
-				type: 'number',
-				required: true,
-				typeOptions: { minValue: 1 },
-				displayOptions: { show: { resource: ['project'], operation: ['get'] } },
-				description: 'Numeric ID of the project',
-				default: 1,
+				displayName: 'Options',
+				name: 'semverOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { resource: ['release'], operation: ['semverRelease'] } },
+				description: 'Naming of the new tag and release',
+				default: {},
+				options: [
+					{
+						displayName: 'Prerelease ID',
+						name: 'prereleaseId',
+						type: 'string',
+						default: 'rc',
+						description: "Identifier used for prerelease versions, such as 'rc' or 'beta'",
+					},
+					{
+						displayName: 'Release Name',
+						name: 'releaseName',
+						type: 'string',
+						default: '',
+						description: 'Name of the release. Defaults to the tag name.',
+					},
+					{
+						displayName: 'Tag Message',
+						name: 'tagMessage',
+						type: 'string',
+						default: '',
+						description: 'Message for an annotated tag',
+					},
+					{
+						displayName: 'Tag Prefix',
+						name: 'tagPrefix',
+						type: 'string',
+						default: 'v',
+						description: 'Prefix of version tags. Tags without it are ignored.',
+					},
+				],
 			},
 			{
-				displayName: 'Search Term',
-				name: 'searchTerm',
+				displayName: 'Source Branch',
+				name: 'source',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['project'], operation: ['search'] } },
-				description: 'Term to search for',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['create'] } },
+				description: "Source branch name, e.g. 'feature/api'",
 				default: '',
 			},
 			{
-				displayName: 'Project Name',
-				name: 'projectName',
+				displayName: 'Target Branch',
+				name: 'target',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['project'], operation: ['create'] } },
-				description: 'Name of the new project',
-				default: '',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['create'] } },
+				description: "Target branch name, e.g. 'main'",
+				default: 'main',
 			},
 			{
-				displayName: 'Project Path',
-				name: 'projectPath',
+				displayName: 'Path',
+				name: 'path',
 				type: 'string',
 				required: true,
-				displayOptions: { show: { resource: ['project'], operation: ['create'] } },
-				description: 'URL path of the new project',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['get', 'getRaw', 'list', 'create', 'update', 'delete'],
+					},
+				},
+				description: "Path to the file, for example 'src/index.ts'",
 				default: '',
 			},
 			{
-				displayName: 'Namespace ID',
-				name: 'namespaceId',
-				type: 'number',
-				typeOptions: { minValue: 1 },
-				displayOptions: { show: { resource: ['project'], operation: ['create'] } },
-				description: 'ID of the namespace for the new project',
-				default: 0,
+				displayName: 'Reference',
+				name: 'fileRef',
+				type: 'string',
+				displayOptions: { show: { resource: ['file'], operation: ['get', 'getRaw', 'list'] } },
+				description: "Reference such as a branch or commit SHA, e.g. 'main'",
+				default: 'main',
 			},
 			{
-				displayName: 'Title',
-				name: 'title',
+				displayName: 'Decode Content As',
+				name: 'fileDecode',
+				type: 'options',
+				displayOptions: { show: { resource: ['file'], operation: ['get'] } },
+				options: [
+					{
+						name: 'Binary',
+						value: 'binary',
+						description: 'Output the file as binary data',
+					},
+					{
+						name: 'Do Not Decode',
+						value: 'none',
+						description: 'Return the base64 content as sent by GitLab',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Parse the content as JSON',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Decode the content as UTF-8 text',
+					},
+				],
+				description: 'How the base64 file content returned by GitLab is decoded',
+				default: 'none',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
 				type: 'string',
 				required: true,
 				displayOptions: {
-					show: { resource: ['issue', 'mergeRequest'], operation: ['create', 'update'] },
+					show: { resource: ['file'], operation: ['get'], fileDecode: ['binary'] },
 				},
-				description: "Title text, for instance 'Fix login bug'",
-				default: '',
+				description: 'Name of the binary property the file is written to',
+				default: 'data',
 			},
 			{
-				displayName: 'Description',
-				name: 'description',
+				displayName: 'Branch',
+				name: 'fileBranch',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['file'], operation: ['create', 'update', 'delete'] } },
+				description: 'Branch to commit to',
+				default: 'main',
+			},
+			{
+				displayName: 'Commit Message',
+				name: 'commitMessage',
 				type: 'string',
+				required: true,
 				displayOptions: {
-					show: { resource: ['issue', 'mergeRequest'], operation: ['create', 'update'] },
+					show: { resource: ['file', 'commit'], operation: ['create', 'update', 'delete'] },
 				},
-				description: "Detailed description, like 'Steps to reproduce the bug'",
+				description: 'Commit message for the change',
 				default: '',
 			},
 			{
-				displayName: 'Issue IID',
-				name: 'issueIid',
-				type: 'number',
+				displayName: 'Branch',
+				name: 'commitBranch',
+				type: 'string',
 				required: true,
-				typeOptions: { minValue: 1 },
 				displayOptions: {
-					show: { resource: ['issue'], operation: ['get', 'update', 'close', 'reopen'] },
+					show: { resource: ['commit'], operation: ['create', 'cherryPick', 'revert'] },
 				},
-				description: 'Issue number to fetch (must be positive)',
-				default: 1,
+				description: 'Branch that receives the new commit',
+				default: 'main',
 			},
 			{
-				displayName: 'Labels',
-				name: 'issueLabels',
+				displayName: 'Commit SHA',
+				name: 'commitSha',
 				type: 'string',
-				displayOptions: { show: { resource: ['issue'], operation: ['create', 'update'] } },
-				description: 'Comma-separated label names to apply',
-				default: '',
-			},
-			{
-				displayName: 'State',
-				name: 'issueState',
-				type: 'options',
-				displayOptions: { show: { resource: ['issue'], operation: ['update'] } },
-				options: [
-					{ name: 'Open', value: 'reopen' },
-					{ name: 'Close', value: 'close' },
-				],
-				description: 'Desired issue state',
-				default: 'reopen',
-			},
-			{
-				displayName: 'Merge Request IID',
-				name: 'mergeRequestIid',
-				type: 'number',
 				required: true,
-				typeOptions: { minValue: 1 },
 				displayOptions: {
 					show: {
-						resource: ['mergeRequest'],
+						resource: ['commit'],
 						operation: [
-							'createNote',
-							'deleteDiscussion',
-							'deleteNote',
 							'get',
-							'getChanges',
-							'getDiscussion',
-							'getDiscussions',
-							'getNote',
-							'labels',
-							'postDiscussionNote',
-							'resolveDiscussion',
-							'updateDiscussion',
-							'updateNote',
-							'updateDiscussionNote',
+							'getDiff',
+							'getRefs',
+							'getStatuses',
+							'cherryPick',
+							'revert',
+							'createComment',
+							'setStatus',
 						],
 					},
 				},
-				description: 'The merge request IID (must be positive)',
-				default: 1,
+				description: 'Commit SHA, or a branch or tag name that points to the commit',
+				default: '',
+			},
+			{
+				displayName: 'Filters',
+				name: 'commitFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				displayOptions: { show: { resource: ['commit'], operation: ['getAll'] } },
+				description: 'Restrict which commits are listed',
+				default: {},
+				options: [
+					{
+						displayName: 'Author',
+						name: 'author',
+						type: 'string',
+						default: '',
+						description: 'Only commits by this author name or email',
+					},
+					{
+						displayName: 'First Parent Only',
+						name: 'firstParent',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to follow only the first parent commit on merge commits',
+					},
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						description: 'Only commits that touch this file or directory',
+					},
+					{
+						displayName: 'Ref',
+						name: 'refName',
+						type: 'string',
+						default: '',
+						description: "Branch, tag or commit range to list, e.g. 'main' or 'v1.0..v2.0'",
+					},
+					{
+						displayName: 'Since',
+						name: 'since',
+						type: 'dateTime',
+						default: '',
+						description: 'Only commits after or on this date',
+					},
+					{
+						displayName: 'Until',
+						name: 'until',
+						type: 'dateTime',
+						default: '',
+						description: 'Only commits before or on this date',
+					},
+				],
+			},
+			{
+				displayName: 'Ref Type',
+				name: 'refType',
+				type: 'options',
+				displayOptions: { show: { resource: ['commit'], operation: ['getRefs'] } },
+				options: [
+					{ name: 'All', value: 'all' },
+					{ name: 'Branch', value: 'branch' },
+					{ name: 'Tag', value: 'tag' },
+				],
+				description: 'Kind of refs to return',
+				default: 'all',
+			},
+			{
+				displayName: 'Options',
+				name: 'commitChangeOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { resource: ['commit'], operation: ['cherryPick', 'revert'] } },
+				description: 'Additional settings for the cherry-pick or revert',
+				default: {},
+				options: [
+					{
+						displayName: 'Dry Run',
+						name: 'dryRun',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to only check that the change applies without committing it',
+					},
+					{
+						displayName: 'Message',
+						name: 'message',
+						type: 'string',
+						default: '',
+						description: 'Custom commit message for a cherry-pick',
+					},
+				],
+			},
+			{
+				displayName: 'Comment',
+				name: 'commitNote',
+				type: 'string',
+				required: true,
+				typeOptions: { rows: 4 },
+				displayOptions: { show: { resource: ['commit'], operation: ['createComment'] } },
+				description: 'Text of the comment',
+				default: '',
+			},
+			{
+				displayName: 'Options',
+				name: 'commitCommentOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { resource: ['commit'], operation: ['createComment'] } },
+				description: 'Attach the comment to a line of the commit diff',
+				default: {},
+				options: [
+					{
+						displayName: 'Line',
+						name: 'line',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1,
+						description: 'Line number the comment is attached to',
+					},
+					{
+						displayName: 'Line Type',
+						name: 'lineType',
+						type: 'options',
+						options: [
+							{ name: 'New', value: 'new' },
+							{ name: 'Old', value: 'old' },
+						],
+						default: 'new',
+						description: 'Whether the line refers to the new or the old version of the file',
+					},
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						description: 'File the comment is attached to',
+					},
+				],
+			},
+			{
+				displayName: 'State',
+				name: 'statusState',
+				type: 'options',
+				required: true,
+				displayOptions: { show: { resource: ['commit'], operation: ['setStatus'] } },
+				options: [
+					{ name: 'Canceled', value: 'canceled' },
+					{ name: 'Failed', value: 'failed' },
+					{ name: 'Pending', value: 'pending' },
+					{ name: 'Running', value: 'running' },
+					{ name: 'Skipped', value: 'skipped' },
+					{ name: 'Success', value: 'success' },
+				],
+				description: 'State reported for the commit',
+				default: 'success',
+			},
+			{
+				displayName: 'Options',
+				name: 'statusOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { resource: ['commit'], operation: ['setStatus'] } },
+				description: 'Additional details of the reported status',
+				default: {},
+				options: [
+					{
+						displayName: 'Coverage',
+						name: 'coverage',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 100 },
+						default: 0,
+						description: 'Total code coverage in percent',
+					},
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+						description: 'Short description of the status',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: 'default',
+						description: 'Label that distinguishes this status from other systems',
+					},
+					{
+						displayName: 'Pipeline ID',
+						name: 'pipelineId',
+						type: 'number',
+						default: 0,
+						description: 'Pipeline to attach the status to when the commit has several pipelines',
+					},
+					{
+						displayName: 'Ref',
+						name: 'ref',
+						type: 'string',
+						default: '',
+						description: 'Branch or tag the status applies to',
+					},
+					{
+						displayName: 'Target URL',
+						name: 'targetUrl',
+						type: 'string',
+						default: '',
+						description: 'URL linked from the status, e.g. to an external build',
+					},
+				],
+			},
+			{
+				displayName: 'Actions Source',
+				name: 'commitActionsSource',
+				type: 'options',
+				displayOptions: { show: { resource: ['commit'], operation: ['create'] } },
+				options: [
+					{
+						name: 'Define Below',
+						value: 'fixed',
+						description: 'Create one commit per input item from the actions below',
+					},
+					{
+						name: 'From Input Items',
+						value: 'items',
+						description:
+							'Evaluate the actions below for every input item and combine them into a single commit',
+					},
+				],
+				description: 'Where the file actions of the commit come from',
+				default: 'fixed',
+			},
+			{
+				displayName: 'Actions',
+				name: 'commitActions',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				placeholder: 'Add Action',
+				displayOptions: { show: { resource: ['commit'], operation: ['create'] } },
+				description: 'File changes included in the commit',
+				default: {},
+				options: [
+					{
+						displayName: 'Action',
+						name: 'action',
+						values: [
+							{
+								displayName: 'Action',
+								name: 'action',
+								type: 'options',
+								options: [
+									{ name: 'Chmod', value: 'chmod' },
+									{ name: 'Create', value: 'create' },
+									{ name: 'Delete', value: 'delete' },
+									{ name: 'Move', value: 'move' },
+									{ name: 'Update', value: 'update' },
+								],
+								default: 'create',
+							},
+							{
+								displayName: 'Content',
+								name: 'content',
+								type: 'string',
+								default: '',
+								description: 'New file content for create, update and move actions',
+							},
+							{
+								displayName: 'Encoding',
+								name: 'encoding',
+								type: 'options',
+								options: [
+									{ name: 'Base64', value: 'base64' },
+									{ name: 'Text', value: 'text' },
+								],
+								default: 'text',
+							},
+							{
+								displayName: 'Executable',
+								name: 'executeFilemode',
+								type: 'boolean',
+								default: false,
+								description: 'Whether the file is made executable by a chmod action',
+							},
+							{
+								displayName: 'File Path',
+								name: 'filePath',
+								type: 'string',
+								default: '',
+								description: "Path of the file, for example 'config/app.yaml'",
+							},
+							{
+								displayName: 'Last Commit ID',
+								name: 'lastCommitId',
+								type: 'string',
+								default: '',
+								description: 'Last known commit of the file, used to detect conflicting changes',
+							},
+							{
+								displayName: 'Previous Path',
+								name: 'previousPath',
+								type: 'string',
+								default: '',
+								description: 'Original path of the file when moving it',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'commitOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { resource: ['commit'], operation: ['create'] } },
+				description: 'Additional settings for the new commit',
+				default: {},
+				options: [
+					{
+						displayName: 'Author Email',
+						name: 'authorEmail',
+						type: 'string',
+						placeholder: 'name@email.com',
+						default: '',
+						description: 'Override the email of the commit author',
+					},
+					{
+						displayName: 'Author Name',
+						name: 'authorName',
+						type: 'string',
+						default: '',
+						description: 'Override the name of the commit author',
+					},
+					{
+						displayName: 'Force',
+						name: 'force',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to overwrite the target branch with a new commit based on the start branch or SHA',
+					},
+					{
+						displayName: 'Start Branch',
+						name: 'startBranch',
+						type: 'string',
+						default: '',
+						description: 'Branch to create the target branch from if it does not exist',
+					},
+					{
+						displayName: 'Start SHA',
+						name: 'startSha',
+						type: 'string',
+						default: '',
+						description: 'Commit SHA to create the target branch from if it does not exist',
+					},
+				],
+			},
+			{
+				displayName: 'Binary File',
+				name: 'fileBinaryData',
+				type: 'boolean',
+				displayOptions: { show: { resource: ['file'], operation: ['create', 'update'] } },
+				description: 'Whether to upload the file from a binary property of the input item',
+				default: false,
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: { resource: ['file'], operation: ['create', 'update'], fileBinaryData: [true] },
+				},
+				description: 'Name of the binary property containing the file to upload',
+				default: 'data',
+			},
+			{
+				displayName: 'Content',
+				name: 'fileContent',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: { resource: ['file'], operation: ['create', 'update'] },
+					hide: { fileBinaryData: [true] },
+				},
+				description: 'File content',
+				default: '',
+			},
+			{
+				displayName: 'Group ID',
+				name: 'groupId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: { resource: ['group'], operation: ['get', 'delete', 'getMembers'] },
+				},
+				description: 'Numeric ID of the group',
+				default: 1,
+			},
+			{
+				displayName: 'Group Name',
+				name: 'groupName',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['group'], operation: ['create'] } },
+				description: 'Name of the new group',
+				default: '',
+			},
+			{
+				displayName: 'Group Path',
+				name: 'groupPath',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['group'], operation: ['create'] } },
+				description: 'URL path of the new group',
+				default: '',
+			},
+			{
+				displayName: 'Parent ID',
+				name: 'parentId',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['group'], operation: ['create'] } },
+				description: 'Numeric ID of the parent group',
+				default: 0,
+			},
+			{
+				displayName: 'Project ID',
+				name: 'projectId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['project'], operation: ['get'] } },
+				description: 'Numeric ID of the project',
+				default: 1,
+			},
+			{
+				displayName: 'Search Term',
+				name: 'searchTerm',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['project'], operation: ['search'] } },
+				description: 'Term to search for',
+				default: '',
+			},
+			{
+				displayName: 'Project Name',
+				name: 'projectName',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['project'], operation: ['create'] } },
+				description: 'Name of the new project',
+				default: '',
+			},
+			{
+				displayName: 'Project Path',
+				name: 'projectPath',
+				type: 'string',
+				required: true,
+				displayOptions: { show: { resource: ['project'], operation: ['create'] } },
+				description: 'URL path of the new project',
+				default: '',
+			},
+			{
+				displayName: 'Namespace ID',
+				name: 'namespaceId',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['project'], operation: ['create'] } },
+				description: 'ID of the namespace for the new project',
+				default: 0,
+			},
+			{
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: { resource: ['issue'], operation: ['create', 'update'] },
+				},
+				description: "Title text, for instance 'Fix login bug'",
+				default: '',
+			},
+			{
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: { resource: ['mergeRequest'], operation: ['create'] },
+				},
+				description: "Title text, for instance 'Fix login bug'",
+				default: '',
+			},
+			{
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
+				displayOptions: {
+					show: { resource: ['mergeRequest'], operation: ['update'] },
+				},
+				description: 'New title text. Leave empty to keep the current title.',
+				default: '',
+			},
+			{
+				displayName: 'Description',
+				name: 'description',
+				type: 'string',
+				displayOptions: {
+					show: { resource: ['issue', 'mergeRequest'], operation: ['create', 'update'] },
+				},
+				description: "Detailed description, like 'Steps to reproduce the bug'",
+				default: '',
+			},
+			{
+				displayName: 'Issue IID',
+				name: 'issueIid',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['issue'],
+						operation: [
+							'get',
+							'update',
+							'close',
+							'reopen',
+							'createNote',
+							'getNotes',
+							'updateNote',
+							'deleteNote',
+							'createLink',
+							'getLinks',
+							'deleteLink',
+							'move',
+							'clone',
+							'setTimeEstimate',
+							'resetTimeEstimate',
+							'addSpentTime',
+							'resetSpentTime',
+							'getTimeStats',
+						],
+					},
+				},
+				description: 'Issue number to fetch (must be positive)',
+				default: 1,
+			},
+			{
+				displayName: 'Target Project ID',
+				name: 'targetProjectId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: { resource: ['issue'], operation: ['createLink', 'move', 'clone'] },
+				},
+				description: 'ID of the project the issue is linked, moved or cloned to',
+				default: 1,
+			},
+			{
+				displayName: 'Target Issue IID',
+				name: 'targetIssueIid',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['issue'], operation: ['createLink'] } },
+				description: 'Number of the issue to link to within the target project',
+				default: 1,
+			},
+			{
+				displayName: 'Link Type',
+				name: 'issueLinkType',
+				type: 'options',
+				displayOptions: { show: { resource: ['issue'], operation: ['createLink'] } },
+				options: [
+					{ name: 'Blocks', value: 'blocks' },
+					{ name: 'Is Blocked By', value: 'is_blocked_by' },
+					{ name: 'Relates To', value: 'relates_to' },
+				],
+				description: 'How the issue relates to the target issue',
+				default: 'relates_to',
+			},
+			{
+				displayName: 'Issue Link ID',
+				name: 'issueLinkId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['issue'], operation: ['deleteLink'] } },
+				description: "ID of the link, as returned in the 'issue_link_id' field of linked issues",
+				default: 1,
+			},
+			{
+				displayName: 'Clone With Notes',
+				name: 'cloneWithNotes',
+				type: 'boolean',
+				displayOptions: { show: { resource: ['issue'], operation: ['clone'] } },
+				description: 'Whether to copy the notes of the issue to the clone',
+				default: false,
+			},
+			{
+				displayName: 'Duration',
+				name: 'timeDuration',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: { resource: ['issue'], operation: ['setTimeEstimate', 'addSpentTime'] },
+				},
+				description: "Time in human-readable format, e.g. '3h30m' or '1w2d'",
+				default: '',
+			},
+			{
+				displayName: 'Summary',
+				name: 'timeSummary',
+				type: 'string',
+				displayOptions: { show: { resource: ['issue'], operation: ['addSpentTime'] } },
+				description: 'Summary of how the time was spent',
+				default: '',
+			},
+			{
+				displayName: 'Labels',
+				name: 'issueLabels',
+				type: 'string',
+				displayOptions: { show: { resource: ['issue'], operation: ['create', 'update'] } },
+				description: 'Comma-separated label names to apply',
+				default: '',
+			},
+			{
+				displayName: 'State',
+				name: 'issueState',
+				type: 'options',
+				displayOptions: { show: { resource: ['issue'], operation: ['update'] } },
+				options: [
+					{ name: 'Open', value: 'reopen' },
+					{ name: 'Close', value: 'close' },
+				],
+				description: 'Desired issue state',
+				default: 'reopen',
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'issueFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				displayOptions: { show: { resource: ['issue'], operation: ['create', 'update'] } },
+				description: 'Further issue attributes to set',
+				default: {},
+				options: [
+					{
+						displayName: 'Add Labels',
+						name: 'addLabels',
+						type: 'string',
+						default: '',
+						description:
+							'Comma-separated labels to add while keeping existing ones. Only used when updating.',
+					},
+					{
+						displayName: 'Assignee IDs',
+						name: 'assigneeIds',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated user IDs to assign. Leave empty to remove all assignees.',
+					},
+					{
+						displayName: 'Confidential',
+						name: 'confidential',
+						type: 'boolean',
+						default: false,
+						description: 'Whether the issue is confidential',
+					},
+					{
+						displayName: 'Due Date',
+						name: 'dueDate',
+						type: 'dateTime',
+						default: '',
+						description: 'Date the issue is due',
+					},
+					{
+						displayName: 'Epic ID',
+						name: 'epicId',
+						type: 'number',
+						default: 0,
+						description: 'ID of the epic to add the issue to',
+					},
+					{
+						displayName: 'Issue Type',
+						name: 'issueType',
+						type: 'options',
+						options: [
+							{ name: 'Incident', value: 'incident' },
+							{ name: 'Issue', value: 'issue' },
+							{ name: 'Task', value: 'task' },
+							{ name: 'Test Case', value: 'test_case' },
+						],
+						default: 'issue',
+					},
+					{
+						displayName: 'Milestone ID',
+						name: 'milestoneId',
+						type: 'number',
+						default: 0,
+						description: 'ID of the milestone. Use 0 to remove the milestone.',
+					},
+					{
+						displayName: 'Remove Labels',
+						name: 'removeLabels',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated labels to remove. Only used when updating.',
+					},
+					{
+						displayName: 'Weight',
+						name: 'weight',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: 'Weight of the issue',
+					},
+				],
+			},
+			{
+				displayName: 'Filters',
+				name: 'issueFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				displayOptions: { show: { resource: ['issue'], operation: ['getAll'] } },
+				description: 'Restrict which issues are listed',
+				default: {},
+				options: [
+					{
+						displayName: 'Assignee Username',
+						name: 'assigneeUsername',
+						type: 'string',
+						default: '',
+						description: 'Only issues assigned to this user',
+					},
+					{
+						displayName: 'Author Username',
+						name: 'authorUsername',
+						type: 'string',
+						default: '',
+						description: 'Only issues created by this user',
+					},
+					{
+						displayName: 'Created After',
+						name: 'createdAfter',
+						type: 'dateTime',
+						default: '',
+						description: 'Only issues created on or after this date',
+					},
+					{
+						displayName: 'Created Before',
+						name: 'createdBefore',
+						type: 'dateTime',
+						default: '',
+						description: 'Only issues created on or before this date',
+					},
+					{
+						displayName: 'Labels',
+						name: 'labels',
+						type: 'string',
+						default: '',
+						description:
+							"Comma-separated labels the issues must all have. 'None' and 'Any' are also accepted.",
+					},
+					{
+						displayName: 'Milestone',
+						name: 'milestone',
+						type: 'string',
+						default: '',
+						description: "Milestone title. 'None' and 'Any' are also accepted.",
+					},
+					{
+						displayName: 'Order By',
+						name: 'orderBy',
+						type: 'options',
+						options: [
+							{ name: 'Created At', value: 'created_at' },
+							{ name: 'Due Date', value: 'due_date' },
+							{ name: 'Label Priority', value: 'label_priority' },
+							{ name: 'Milestone Due', value: 'milestone_due' },
+							{ name: 'Popularity', value: 'popularity' },
+							{ name: 'Priority', value: 'priority' },
+							{ name: 'Relative Position', value: 'relative_position' },
+							{ name: 'Title', value: 'title' },
+							{ name: 'Updated At', value: 'updated_at' },
+							{ name: 'Weight', value: 'weight' },
+						],
+						default: 'created_at',
+					},
+					{
+						displayName: 'Scope',
+						name: 'scope',
+						type: 'options',
+						options: [
+							{ name: 'All', value: 'all' },
+							{ name: 'Assigned to Me', value: 'assigned_to_me' },
+							{ name: 'Created by Me', value: 'created_by_me' },
+						],
+						default: 'all',
+					},
+					{
+						displayName: 'Search',
+						name: 'search',
+						type: 'string',
+						default: '',
+						description: 'Search issues against their title and description',
+					},
+					{
+						displayName: 'Sort',
+						name: 'sort',
+						type: 'options',
+						options: [
+							{ name: 'Ascending', value: 'asc' },
+							{ name: 'Descending', value: 'desc' },
+						],
+						default: 'desc',
+					},
+					{
+						displayName: 'State',
+						name: 'state',
+						type: 'options',
+						options: [
+							{ name: 'All', value: 'all' },
+							{ name: 'Closed', value: 'closed' },
+							{ name: 'Opened', value: 'opened' },
+						],
+						default: 'opened',
+					},
+					{
+						displayName: 'Updated After',
+						name: 'updatedAfter',
+						type: 'dateTime',
+						default: '',
+						description: 'Only issues updated on or after this date',
+					},
+					{
+						displayName: 'Updated Before',
+						name: 'updatedBefore',
+						type: 'dateTime',
+						default: '',
+						description: 'Only issues updated on or before this date',
+					},
+				],
+			},
+			{
+				displayName: 'Merge Request IID',
+				name: 'mergeRequestIid',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: [
+							'createNote',
+							'deleteDiscussion',
+							'deleteNote',
+							'get',
+							'getChanges',
+							'getDiscussion',
+							'getDiscussions',
+							'getNote',
+							'labels',
+							'postDiscussionNote',
+							'resolveDiscussion',
+							'updateDiscussion',
+							'update',
+							'updateNote',
+							'updateDiscussionNote',
+							'approve',
+							'unapprove',
+							'getApprovalState',
+							'getApprovalRules',
+							'createApprovalRule',
+							'updateApprovalRule',
+							'deleteApprovalRule',
+							'getReviewers',
+							'resetApprovals',
+							'merge',
+							'cancelAutoMerge',
+							'postReview',
+							'getPipelines',
+							'createPipeline',
+							'getCommits',
+							'getVersions',
+							'getVersion',
+							'getClosesIssues',
+							'getParticipants',
+						],
+					},
+				},
+				description: 'The merge request IID (must be positive)',
+				default: 1,
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'mergeRequestFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['create', 'update'] } },
+				description: 'Further merge request attributes to set',
+				default: {},
+				options: [
+					{
+						displayName: 'Add Labels',
+						name: 'addLabels',
+						type: 'string',
+						default: '',
+						description:
+							'Comma-separated labels to add while keeping existing ones. Only used when updating.',
+					},
+					{
+						displayName: 'Allow Collaboration',
+						name: 'allowCollaboration',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether members who can merge to the target branch may push to the source branch of a fork',
+					},
+					{
+						displayName: 'Assignee IDs',
+						name: 'assigneeIds',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated user IDs to assign. Leave empty to remove all assignees.',
+					},
+					{
+						displayName: 'Discussion Locked',
+						name: 'discussionLocked',
+						type: 'boolean',
+						default: false,
+						description: 'Whether only project members can comment. Only used when updating.',
+					},
+					{
+						displayName: 'Draft',
+						name: 'draft',
+						type: 'boolean',
+						default: false,
+						description:
+							"Whether the merge request is a draft. Adds or removes the 'Draft:' title prefix.",
+					},
+					{
+						displayName: 'Labels',
+						name: 'labels',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated labels replacing the current ones',
+					},
+					{
+						displayName: 'Milestone ID',
+						name: 'milestoneId',
+						type: 'number',
+						default: 0,
+						description: 'ID of the milestone. Use 0 to remove the milestone.',
+					},
+					{
+						displayName: 'Remove Labels',
+						name: 'removeLabels',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated labels to remove. Only used when updating.',
+					},
+					{
+						displayName: 'Remove Source Branch',
+						name: 'removeSourceBranch',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to delete the source branch once the merge request is merged',
+					},
+					{
+						displayName: 'Reviewer IDs',
+						name: 'reviewerIds',
+						type: 'string',
+						default: '',
+						description:
+							'Comma-separated user IDs to request a review from. Leave empty to remove all reviewers.',
+					},
+					{
+						displayName: 'Squash',
+						name: 'squash',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to squash the commits when merging',
+					},
+					{
+						displayName: 'Target Branch',
+						name: 'targetBranch',
+						type: 'string',
+						default: '',
+						description: 'New target branch. Only used when updating.',
+					},
+					{
+						displayName: 'Target Project ID',
+						name: 'targetProjectId',
+						type: 'number',
+						default: 0,
+						description:
+							'ID of the project to merge into, for merge requests opened from a fork. Only used when creating.',
+					},
+				],
+			},
+			{
+				displayName: 'Version ID',
+				name: 'versionId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['getVersion'] } },
+				description: 'ID of the diff version, as listed by the Get Versions operation',
+				default: 1,
 			},
 			{
 				displayName: 'Access Raw Diffs',
@@ -765,124 +2428,346 @@ export class GitlabExtended implements INodeType {
 				default: false,
 			},
 			{
-				displayName: 'Labels',
-				name: 'labels',
+				displayName: 'Structured Diff',
+				name: 'structuredDiff',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['getChanges'],
+					},
+				},
+				description:
+					'Whether to parse each diff into hunks and lines with line numbers and line codes',
+				default: false,
+			},
+			{
+				displayName: 'Labels',
+				name: 'labels',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['labels'],
+					},
+				},
+				description: 'Comma-separated label names to apply',
+				default: '',
+			},
+			{
+				displayName: 'Action',
+				name: 'labelAction',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['labels'],
+					},
+				},
+				options: [
+					{ name: 'Add', value: 'add' },
+					{ name: 'Remove', value: 'remove' },
+				],
+				default: 'add',
+			},
+			{
+				displayName: 'Body',
+				name: 'body',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest', 'issue'],
+						operation: ['createNote', 'postDiscussionNote', 'updateNote', 'updateDiscussionNote'],
+					},
+				},
+				description: "Note text, e.g. 'Looks good to me'",
+				default: '',
+			},
+			{
+				displayName: 'Start New Discussion',
+				name: 'startDiscussion',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['postDiscussionNote'],
+					},
+				},
+				description: 'Whether to start a new discussion instead of replying to an existing one',
+				default: false,
+			},
+			{
+				displayName: 'Discussion ID',
+				name: 'discussionId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: [
+							'deleteDiscussion',
+							'deleteDiscussionNote',
+							'getDiscussion',
+							'postDiscussionNote',
+							'resolveDiscussion',
+							'updateDiscussion',
+							'updateDiscussionNote',
+						],
+					},
+					hide: {
+						startDiscussion: [true],
+					},
+				},
+				description: "Discussion ID to reply to or fetch, e.g. '123abc'",
+				default: '',
+			},
+			{
+				displayName: 'Resolved',
+				name: 'resolved',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['resolveDiscussion', 'updateDiscussion', 'updateDiscussionNote'],
+					},
+				},
+				options: [
+					{ name: 'Do Not Change', value: 'none' },
+					{ name: 'Resolve', value: 'true' },
+					{ name: 'Unresolve', value: 'false' },
+				],
+				description: 'Whether the discussion should be resolved',
+				default: 'none',
+			},
+			{
+				displayName: 'Note ID',
+				name: 'noteId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest', 'issue'],
+						operation: [
+							'deleteNote',
+							'getNote',
+							'updateNote',
+							'updateDiscussionNote',
+							'deleteDiscussionNote',
+						],
+					},
+				},
+				description: 'Existing note ID (must be positive)',
+				default: 1,
+			},
+			{
+				displayName: 'Add Suggestion',
+				name: 'addSuggestion',
+				type: 'boolean',
+				displayOptions: {
+					show: { resource: ['mergeRequest'], operation: ['postDiscussionNote'] },
+				},
+				description: 'Whether to append a code suggestion the author can apply with one click',
+				default: false,
+			},
+			{
+				displayName: 'Suggested Code',
+				name: 'suggestionCode',
+				type: 'string',
+				typeOptions: { rows: 4 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['postDiscussionNote'],
+						addSuggestion: [true],
+					},
+				},
+				description: 'Code replacing the suggested lines. Leave empty to suggest removing them.',
+				default: '',
+			},
+			{
+				displayName: 'Lines Above',
+				name: 'suggestionLinesAbove',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['postDiscussionNote'],
+						addSuggestion: [true],
+					},
+				},
+				description:
+					'How many lines above the commented line the suggestion replaces. For a multi-line comment this is usually the size of the range minus one.',
+				default: 0,
+			},
+			{
+				displayName: 'Lines Below',
+				name: 'suggestionLinesBelow',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['postDiscussionNote'],
+						addSuggestion: [true],
+					},
+				},
+				description: 'How many lines below the commented line the suggestion replaces',
+				default: 0,
+			},
+			{
+				displayName: 'Suggestion IDs',
+				name: 'suggestionIds',
 				type: 'string',
 				required: true,
 				displayOptions: {
-					show: {
-						resource: ['mergeRequest'],
-						operation: ['labels'],
-					},
+					show: { resource: ['mergeRequest'], operation: ['applySuggestions'] },
 				},
-				description: 'Comma-separated label names to apply',
+				description:
+					'Comma-separated suggestion IDs, found in the suggestions of a note. Several suggestions are applied in one commit.',
 				default: '',
 			},
 			{
-				displayName: 'Action',
-				name: 'labelAction',
+				displayName: 'Commit Message',
+				name: 'suggestionCommitMessage',
+				type: 'string',
+				displayOptions: {
+					show: { resource: ['mergeRequest'], operation: ['applySuggestions'] },
+				},
+				description: "Message of the commit, instead of GitLab's default suggestion message",
+				default: '',
+			},
+			{
+				displayName: 'Comments',
+				name: 'reviewComments',
+				type: 'json',
+				required: true,
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['postReview'] } },
+				description:
+					'Array of comments such as [{"path": "src/app.ts", "line": 12, "body": "Typo", "side": "new"}]. An optional "endLine" comments on a range of lines.',
+				default: '[]',
+			},
+			{
+				displayName: 'Submission',
+				name: 'reviewSubmission',
+				type: 'options',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['postReview'] } },
+				options: [
+					{
+						name: 'Discussions',
+						value: 'discussions',
+						description: 'Post every comment as a discussion right away',
+					},
+					{
+						name: 'Draft Notes',
+						value: 'drafts',
+						description: 'Leave the comments as draft notes for a reviewer to submit',
+					},
+					{
+						name: 'Draft Notes, Then Publish',
+						value: 'publishDrafts',
+						description:
+							'Create draft notes, then publish only those, leaving other pending drafts untouched',
+					},
+				],
+				default: 'discussions',
+			},
+			{
+				displayName: 'Position Mode',
+				name: 'positionMode',
 				type: 'options',
 				displayOptions: {
 					show: {
 						resource: ['mergeRequest'],
-						operation: ['labels'],
+						operation: ['postDiscussionNote'],
 					},
 				},
 				options: [
-					{ name: 'Add', value: 'add' },
-					{ name: 'Remove', value: 'remove' },
+					{
+						name: 'File and Line',
+						value: 'fileLine',
+						description: 'Compute the position from a file path and line number',
+					},
+					{
+						name: 'Manual',
+						value: 'manual',
+						description: 'Enter paths, line numbers, line codes and SHAs yourself',
+					},
 				],
-				default: 'add',
+				default: 'manual',
 			},
 			{
-				displayName: 'Body',
-				name: 'body',
+				displayName: 'File Path',
+				name: 'reviewFilePath',
 				type: 'string',
+				required: true,
 				displayOptions: {
 					show: {
 						resource: ['mergeRequest'],
-						operation: ['createNote', 'postDiscussionNote', 'updateNote', 'updateDiscussionNote'],
+						operation: ['postDiscussionNote'],
+						positionMode: ['fileLine'],
 					},
 				},
-				description: "Note text, e.g. 'Looks good to me'",
+				description: "Path of the changed file, e.g. 'src/index.ts'",
 				default: '',
 			},
 			{
-				displayName: 'Start New Discussion',
-				name: 'startDiscussion',
-				type: 'boolean',
+				displayName: 'Line',
+				name: 'reviewLine',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
 				displayOptions: {
 					show: {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
+						positionMode: ['fileLine'],
 					},
 				},
-				description: 'Whether to start a new discussion instead of replying to an existing one',
-				default: false,
+				description: 'Line to comment on, or the first line of a range',
+				default: 1,
 			},
 			{
-				displayName: 'Discussion ID',
-				name: 'discussionId',
-				type: 'string',
-				required: true,
+				displayName: 'End Line',
+				name: 'reviewEndLine',
+				type: 'number',
+				typeOptions: { minValue: 0 },
 				displayOptions: {
 					show: {
 						resource: ['mergeRequest'],
-						operation: [
-							'deleteDiscussion',
-							'deleteDiscussionNote',
-							'getDiscussion',
-							'postDiscussionNote',
-							'resolveDiscussion',
-							'updateDiscussion',
-							'updateDiscussionNote',
-						],
-					},
-					hide: {
-						startDiscussion: [true],
+						operation: ['postDiscussionNote'],
+						positionMode: ['fileLine'],
 					},
 				},
-				description: "Discussion ID to reply to or fetch, e.g. '123abc'",
-				default: '',
+				description: 'Last line of a multi-line comment. Use 0 to comment on a single line.',
+				default: 0,
 			},
 			{
-				displayName: 'Resolved',
-				name: 'resolved',
+				displayName: 'Side',
+				name: 'reviewLineSide',
 				type: 'options',
 				displayOptions: {
 					show: {
 						resource: ['mergeRequest'],
-						operation: ['resolveDiscussion', 'updateDiscussion', 'updateDiscussionNote'],
+						operation: ['postDiscussionNote'],
+						positionMode: ['fileLine'],
 					},
 				},
 				options: [
-					{ name: 'Do Not Change', value: 'none' },
-					{ name: 'Resolve', value: 'true' },
-					{ name: 'Unresolve', value: 'false' },
-				],
-				description: 'Whether the discussion should be resolved',
-				default: 'none',
-			},
-			{
-				displayName: 'Note ID',
-				name: 'noteId',
-				type: 'number',
-				required: true,
-				typeOptions: { minValue: 1 },
-				displayOptions: {
-					show: {
-						resource: ['mergeRequest'],
-						operation: [
-							'deleteNote',
-							'getNote',
-							'updateNote',
-							'updateDiscussionNote',
-							'deleteDiscussionNote',
-						],
+					{
+						name: 'New',
+						value: 'new',
+						description: 'Line numbers refer to the file after the change',
 					},
-				},
-				description: 'Existing note ID (must be positive)',
-				default: 1,
+					{
+						name: 'Old',
+						value: 'old',
+						description: 'Line numbers refer to the file before the change',
+					},
+				],
+				default: 'new',
 			},
 			{
 				displayName: 'Position Type',
@@ -893,6 +2778,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				options: [
 					{ name: 'Text', value: 'text' },
@@ -909,6 +2797,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Path to the new file',
 				default: '',
@@ -922,6 +2813,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Path to the old file',
 				default: '',
@@ -935,6 +2829,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Line number in the new file',
 				default: null,
@@ -948,6 +2845,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Line number in the old file',
 				default: null,
@@ -961,6 +2861,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Line code for the start of a multiline note',
 				default: '',
@@ -974,6 +2877,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				options: [
 					{ name: 'New', value: 'new' },
@@ -991,6 +2897,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Old line number of the start line',
 				default: null,
@@ -1004,6 +2913,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'New line number of the start line',
 				default: null,
@@ -1017,6 +2929,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Line code for the end of a multiline note',
 				default: '',
@@ -1030,6 +2945,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				options: [
 					{ name: 'New', value: 'new' },
@@ -1047,6 +2965,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Old line number of the end line',
 				default: null,
@@ -1060,6 +2981,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'New line number of the end line',
 				default: null,
@@ -1073,6 +2997,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Base commit SHA',
 				default: '',
@@ -1086,6 +3013,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Head commit SHA',
 				default: '',
@@ -1099,6 +3029,9 @@ export class GitlabExtended implements INodeType {
 						resource: ['mergeRequest'],
 						operation: ['postDiscussionNote'],
 					},
+					hide: {
+						positionMode: ['fileLine'],
+					},
 				},
 				description: 'Start commit SHA',
 				default: '',
@@ -1129,6 +3062,30 @@ export class GitlabExtended implements INodeType {
 				description: 'Date time string in ISO 8601 format',
 				default: '',
 			},
+			{
+				displayName: 'Mode',
+				name: 'mergeMode',
+				type: 'options',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['merge'] } },
+				options: [
+					{
+						name: 'Check Only',
+						value: 'check',
+						description: 'Report whether the merge request can be merged without merging it',
+					},
+					{
+						name: 'Check Then Merge',
+						value: 'checkAndMerge',
+						description: 'Merge when possible, otherwise report why it cannot be merged',
+					},
+					{
+						name: 'Merge',
+						value: 'merge',
+						description: 'Merge right away and fail if GitLab refuses',
+					},
+				],
+				default: 'merge',
+			},
 			{
 				displayName: 'Merge Commit Message',
 				name: 'mergeCommitMessage',
@@ -1149,6 +3106,134 @@ export class GitlabExtended implements INodeType {
 				description: 'How to merge the changes',
 				default: 'merge',
 			},
+			{
+				displayName: 'Merge Options',
+				name: 'mergeOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['merge'] } },
+				default: {},
+				options: [
+					{
+						displayName: 'Auto-Merge',
+						name: 'autoMerge',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to merge once the pipeline succeeds instead of right away',
+					},
+					{
+						displayName: 'Remove Source Branch',
+						name: 'shouldRemoveSourceBranch',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to delete the source branch after merging',
+					},
+					{
+						displayName: 'SHA',
+						name: 'sha',
+						type: 'string',
+						default: '',
+						description: 'Expected head commit. The merge fails if the source branch has moved on.',
+					},
+					{
+						displayName: 'Squash Commit Message',
+						name: 'squashCommitMessage',
+						type: 'string',
+						default: '',
+						description: 'Message of the squash commit',
+					},
+				],
+			},
+			{
+				displayName: 'SHA',
+				name: 'approvalSha',
+				type: 'string',
+				displayOptions: { show: { resource: ['mergeRequest'], operation: ['approve'] } },
+				description:
+					'Head commit the approval applies to. The approval fails if the merge request has moved on.',
+				default: '',
+			},
+			{
+				displayName: 'Approval Rule ID',
+				name: 'approvalRuleId',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['updateApprovalRule', 'deleteApprovalRule'],
+					},
+				},
+				description: 'ID of the approval rule (must be positive)',
+				default: 1,
+			},
+			{
+				displayName: 'Rule Name',
+				name: 'approvalRuleName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['createApprovalRule', 'updateApprovalRule'],
+					},
+				},
+				description: "Name of the approval rule, e.g. 'Security'",
+				default: '',
+			},
+			{
+				displayName: 'Approvals Required',
+				name: 'approvalsRequired',
+				type: 'number',
+				required: true,
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['createApprovalRule', 'updateApprovalRule'],
+					},
+				},
+				description: 'Number of approvals the rule requires',
+				default: 1,
+			},
+			{
+				displayName: 'Rule Options',
+				name: 'approvalRuleOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['mergeRequest'],
+						operation: ['createApprovalRule', 'updateApprovalRule'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Group IDs',
+						name: 'groupIds',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated IDs of groups whose members can approve',
+					},
+					{
+						displayName: 'Project Rule ID',
+						name: 'projectRuleId',
+						type: 'number',
+						default: 0,
+						description:
+							'ID of the project approval rule this rule is based on. Only used when creating.',
+					},
+					{
+						displayName: 'User IDs',
+						name: 'userIds',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated IDs of users who can approve',
+					},
+				],
+			},
 			{
 				displayName: 'Skip CI',
 				name: 'skipCi',
@@ -1199,6 +3284,58 @@ export class GitlabExtended implements INodeType {
 				description: 'Query parameters as JSON, e.g. \'{"state":"opened"}\'',
 				default: '',
 			},
+			{
+				displayName: 'Route Errors to Separate Output',
+				name: 'errorOutput',
+				type: 'boolean',
+				description:
+					'Whether failed items are sent to a second "Errors" output instead of stopping the execution',
+				default: false,
+			},
+			{
+				displayName: 'Retry Options',
+				name: 'retryOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				description:
+					'Automatic retries for requests rejected with 429 responses, or with 5xx responses to read requests',
+				default: {},
+				options: [
+					{
+						displayName: 'Base Delay (Ms)',
+						name: 'baseDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						description:
+							'Initial backoff delay, doubled after every attempt when GitLab sends no rate limit headers',
+						default: 1000,
+					},
+					{
+						displayName: 'Max Attempts',
+						name: 'maxAttempts',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						description: 'Maximum number of attempts per request, including the first one',
+						default: 3,
+					},
+					{
+						displayName: 'Max Delay (Ms)',
+						name: 'maxDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						description: 'Upper bound for the wait between two attempts',
+						default: 60000,
+					},
+					{
+						displayName: 'Retry Writes on Server Errors',
+						name: 'retryWrites',
+						type: 'boolean',
+						description:
+							'Whether to also retry POST, PUT, PATCH and DELETE requests after a 5xx response. This can create duplicates when GitLab processed the request before failing.',
+						default: false,
+					},
+				],
+			},
 		],
 	};
 
@@ -1207,7 +3344,11 @@ export class GitlabExtended implements INodeType {
 			const prop: any = property as any;
 			const required = prop.required === true;
 			const defaultValue = prop.default;
-			const hasDefault = defaultValue !== undefined && defaultValue !== '' && defaultValue !== null;
+			const hasDefault =
+				defaultValue !== undefined &&
+				defaultValue !== '' &&
+				defaultValue !== null &&
+				typeof defaultValue !== 'object';
 			let desc = prop.description as string | undefined;
 			desc = desc ?? '';
 
@@ -1226,221 +3367,226 @@ export class GitlabExtended implements INodeType {
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const errorData: INodeExecutionData[] = [];
+		const errorOutput = this.getNodeParameter('errorOutput', 0, false) as boolean;
 		const operation = this.getNodeParameter('operation', 0);
 		const resource = this.getNodeParameter('resource', 0);
 		const authCheck = await resolveCredential.call(this, 0);
 		assertValidProjectCredentials.call(this, authCheck);
+		// Actions from all input items are combined into a single commit, made only once
+		const combineItems =
+			resource === 'commit' &&
+			operation === 'create' &&
+			this.getNodeParameter('commitActionsSource', 0, 'fixed') === 'items';
+		const itemCount = combineItems ? Math.min(items.length, 1) : items.length;
 
-		for (let i = 0; i < items.length; i++) {
-			const credential = await resolveCredential.call(this, i);
-			assertValidProjectCredentials.call(this, credential);
-			const base = buildProjectBase(credential);
+		for (let i = 0; i < itemCount; i++) {
+			try {
+				const credential = await resolveCredential.call(this, i);
+				assertValidProjectCredentials.call(this, credential);
+				const base = buildProjectBase(credential);
 
-			let requestMethod: IHttpRequestMethods = 'GET';
-			let endpoint = '';
-			let body: IDataObject = {};
-			let qs: IDataObject = {};
-			let returnAll = false;
+				let requestMethod: IHttpRequestMethods = 'GET';
+				let endpoint = '';
+				let body: IDataObject = {};
+				let qs: IDataObject = {};
+				let returnAll = false;
 
-			if (resource === 'branch') {
-				const executionData = await handleBranch.call(this, i);
-				returnData.push(...executionData);
-				continue;
-			} else if (resource === 'pipeline') {
-				const executionData = await handlePipeline.call(this, i);
-				returnData.push(...executionData);
-				continue;
-			} else if (resource === 'tag') {
-				if (operation === 'create') {
-					requestMethod = 'POST';
-					body.tag_name = this.getNodeParameter('tagName', i);
-					body.ref = this.getNodeParameter('ref', i);
-					const message = this.getNodeParameter('message', i, '');
-					if (message) body.message = message;
-					endpoint = `${base}/repository/tags`;
-				} else if (operation === 'get') {
-					requestMethod = 'GET';
-					const tag = this.getNodeParameter('tagName', i) as string;
-					endpoint = `${base}/repository/tags/${encodeURIComponent(tag)}`;
-				} else if (operation === 'getAll') {
-					requestMethod = 'GET';
-					returnAll = this.getNodeParameter('returnAll', i);
-					if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
-					endpoint = `${base}/repository/tags`;
-				} else if (operation === 'delete') {
-					requestMethod = 'DELETE';
-					const tag = this.getNodeParameter('tagName', i) as string;
-					endpoint = `${base}/repository/tags/${encodeURIComponent(tag)}`;
-				}
-			} else if (resource === 'release') {
-				if (operation === 'create') {
-					requestMethod = 'POST';
-					body.tag_name = this.getNodeParameter('tagName', i) as string;
-					if (!body.tag_name) {
-						throw new NodeOperationError(this.getNode(), 'tagName must not be empty', {
-							itemIndex: i,
-						});
+				if (resource === 'branch') {
+					const executionData = await handleBranch.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'commit') {
+					const executionData = await handleCommit.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'pipeline') {
+					const executionData = await handlePipeline.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'job') {
+					const executionData = await handleJob.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'tag') {
+					if (operation === 'create') {
+						requestMethod = 'POST';
+						body.tag_name = this.getNodeParameter('tagName', i);
+						body.ref = this.getNodeParameter('ref', i);
+						const message = this.getNodeParameter('message', i, '');
+						if (message) body.message = message;
+						endpoint = `${base}/repository/tags`;
+					} else if (operation === 'get') {
+						requestMethod = 'GET';
+						const tag = this.getNodeParameter('tagName', i) as string;
+						endpoint = `${base}/repository/tags/${encodeURIComponent(tag)}`;
+					} else if (operation === 'getAll') {
+						requestMethod = 'GET';
+						returnAll = this.getNodeParameter('returnAll', i);
+						if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
+						endpoint = `${base}/repository/tags`;
+					} else if (operation === 'delete') {
+						requestMethod = 'DELETE';
+						const tag = this.getNodeParameter('tagName', i) as string;
+						endpoint = `${base}/repository/tags/${encodeURIComponent(tag)}`;
 					}
-					body.name = this.getNodeParameter('name', i);
-					addOptionalStringParam.call(this, body, 'releaseDescription', 'description', i);
-					const assets = this.getNodeParameter('assets', i, '');
-					if (assets) {
-						try {
-							body.assets = JSON.parse(assets as string);
-						} catch (error) {
-							throw new NodeOperationError(this.getNode(), "Invalid JSON in 'assets' parameter", {
+				} else if (resource === 'release') {
+					if (operation === 'create') {
+						requestMethod = 'POST';
+						body.tag_name = this.getNodeParameter('tagName', i) as string;
+						if (!body.tag_name) {
+							throw new NodeOperationError(this.getNode(), 'tagName must not be empty', {
 								itemIndex: i,
 							});
 						}
+						body.name = this.getNodeParameter('name', i);
+						addOptionalStringParam.call(this, body, 'releaseDescription', 'description', i);
+						const assets = this.getNodeParameter('assets', i, '');
+						if (assets) {
+							try {
+								body.assets = JSON.parse(assets as string);
+							} catch (error) {
+								throw new NodeOperationError(this.getNode(), "Invalid JSON in 'assets' parameter", {
+									itemIndex: i,
+								});
+							}
+						}
+						endpoint = `${base}/releases`;
+					} else if (operation === 'update') {
+						requestMethod = 'PUT';
+						const tag = this.getNodeParameter('tagName', i) as string;
+						body.name = this.getNodeParameter('name', i);
+						addOptionalStringParam.call(this, body, 'releaseDescription', 'description', i);
+						const assets = this.getNodeParameter('assets', i, '');
+						if (assets) {
+							try {
+								body.assets = JSON.parse(assets as string);
+							} catch (error) {
+								throw new NodeOperationError(this.getNode(), "Invalid JSON in 'assets' parameter", {
+									itemIndex: i,
+								});
+							}
+						}
+						endpoint = `${base}/releases/${encodeURIComponent(tag)}`;
+					} else if (operation === 'get') {
+						requestMethod = 'GET';
+						const tag = this.getNodeParameter('tagName', i) as string;
+						endpoint = `${base}/releases/${encodeURIComponent(tag)}`;
+					} else if (operation === 'getAll') {
+						requestMethod = 'GET';
+						returnAll = this.getNodeParameter('returnAll', i);
+						if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
+						endpoint = `${base}/releases`;
+					} else if (operation === 'semverRelease') {
+						returnData.push(...(await semverRelease.call(this, base, i)));
+						continue;
+					} else if (operation === 'delete') {
+						requestMethod = 'DELETE';
+						const tag = this.getNodeParameter('tagName', i) as string;
+						endpoint = `${base}/releases/${encodeURIComponent(tag)}`;
 					}
-					endpoint = `${base}/releases`;
-				} else if (operation === 'update') {
-					requestMethod = 'PUT';
-					const tag = this.getNodeParameter('tagName', i) as string;
-					body.name = this.getNodeParameter('name', i);
-					addOptionalStringParam.call(this, body, 'releaseDescription', 'description', i);
-					const assets = this.getNodeParameter('assets', i, '');
-					if (assets) {
-						try {
-							body.assets = JSON.parse(assets as string);
-						} catch (error) {
-							throw new NodeOperationError(this.getNode(), "Invalid JSON in 'assets' parameter", {
-								itemIndex: i,
-							});
+				} else if (resource === 'group') {
+					if (operation === 'create') {
+						requestMethod = 'POST';
+						body.name = this.getNodeParameter('groupName', i);
+						body.path = this.getNodeParameter('groupPath', i);
+						const parent = this.getNodeParameter('parentId', i, 0) as number;
+						if (parent) body.parent_id = parent;
+						endpoint = `/groups`;
+					} else if (operation === 'get') {
+						requestMethod = 'GET';
+						const id = this.getNodeParameter('groupId', i) as number;
+						requirePositive.call(this, id, 'groupId', i);
+						endpoint = `/groups/${id}`;
+					} else if (operation === 'delete') {
+						requestMethod = 'DELETE';
+						const id = this.getNodeParameter('groupId', i) as number;
+						requirePositive.call(this, id, 'groupId', i);
+						endpoint = `/groups/${id}`;
+					} else if (operation === 'getMembers') {
+						requestMethod = 'GET';
+						const id = this.getNodeParameter('groupId', i) as number;
+						requirePositive.call(this, id, 'groupId', i);
+						returnAll = this.getNodeParameter('returnAll', i);
+						if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
+						endpoint = `/groups/${id}/members`;
+					}
+				} else if (resource === 'project') {
+					if (operation === 'create') {
+						requestMethod = 'POST';
+						body.name = this.getNodeParameter('projectName', i);
+						body.path = this.getNodeParameter('projectPath', i);
+						const ns = this.getNodeParameter('namespaceId', i, 0) as number;
+						if (ns) body.namespace_id = ns;
+						endpoint = '/projects';
+					} else if (operation === 'get') {
+						requestMethod = 'GET';
+						const id = this.getNodeParameter('projectId', i) as number;
+						requirePositive.call(this, id, 'projectId', i);
+						endpoint = `/projects/${id}`;
+					} else if (operation === 'getAll' || operation === 'search') {
+						requestMethod = 'GET';
+						returnAll = this.getNodeParameter('returnAll', i);
+						if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
+						if (operation === 'search') {
+							qs.search = this.getNodeParameter('searchTerm', i);
 						}
+						endpoint = '/projects';
 					}
-					endpoint = `${base}/releases/${encodeURIComponent(tag)}`;
-				} else if (operation === 'get') {
-					requestMethod = 'GET';
-					const tag = this.getNodeParameter('tagName', i) as string;
-					endpoint = `${base}/releases/${encodeURIComponent(tag)}`;
-				} else if (operation === 'getAll') {
-					requestMethod = 'GET';
-					returnAll = this.getNodeParameter('returnAll', i);
-					if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
-					endpoint = `${base}/releases`;
-				} else if (operation === 'delete') {
-					requestMethod = 'DELETE';
-					const tag = this.getNodeParameter('tagName', i) as string;
-					endpoint = `${base}/releases/${encodeURIComponent(tag)}`;
-				}
-			} else if (resource === 'group') {
-				if (operation === 'create') {
-					requestMethod = 'POST';
-					body.name = this.getNodeParameter('groupName', i);
-					body.path = this.getNodeParameter('groupPath', i);
-					const parent = this.getNodeParameter('parentId', i, 0) as number;
-					if (parent) body.parent_id = parent;
-					endpoint = `/groups`;
-				} else if (operation === 'get') {
-					requestMethod = 'GET';
-					const id = this.getNodeParameter('groupId', i) as number;
-					requirePositive.call(this, id, 'groupId', i);
-					endpoint = `/groups/${id}`;
-				} else if (operation === 'delete') {
-					requestMethod = 'DELETE';
-					const id = this.getNodeParameter('groupId', i) as number;
-					requirePositive.call(this, id, 'groupId', i);
-					endpoint = `/groups/${id}`;
-				} else if (operation === 'getMembers') {
-					requestMethod = 'GET';
-					const id = this.getNodeParameter('groupId', i) as number;
-					requirePositive.call(this, id, 'groupId', i);
-					returnAll = this.getNodeParameter('returnAll', i);
-					if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
-					endpoint = `/groups/${id}/members`;
-				}
-			} else if (resource === 'project') {
-				if (operation === 'create') {
-					requestMethod = 'POST';
-					body.name = this.getNodeParameter('projectName', i);
-					body.path = this.getNodeParameter('projectPath', i);
-					const ns = this.getNodeParameter('namespaceId', i, 0) as number;
-					if (ns) body.namespace_id = ns;
-					endpoint = '/projects';
-				} else if (operation === 'get') {
-					requestMethod = 'GET';
-					const id = this.getNodeParameter('projectId', i) as number;
-					requirePositive.call(this, id, 'projectId', i);
-					endpoint = `/projects/${id}`;
-				} else if (operation === 'getAll' || operation === 'search') {
-					requestMethod = 'GET';
-					returnAll = this.getNodeParameter('returnAll', i);
-					if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
-					if (operation === 'search') {
-						qs.search = this.getNodeParameter('searchTerm', i);
+				} else if (resource === 'file') {
+					const executionData = await handleFile.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'issue') {
+					const executionData = await handleIssue.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'mergeRequest') {
+					const executionData = await handleMergeRequest.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'repository') {
+					const executionData = await handleRepository.call(this, i);
+					returnData.push(...executionData);
+					continue;
+				} else if (resource === 'raw') {
+					if (operation === 'request') {
+						requestMethod = this.getNodeParameter('httpMethod', i) as IHttpRequestMethods;
+						endpoint = this.getNodeParameter('endpoint', i) as string;
+						body = this.getNodeParameter('content', i, {}) as IDataObject;
+						qs = this.getNodeParameter('queryParameters', i, {}) as IDataObject;
 					}
-					endpoint = '/projects';
+				} else {
+					throw new NodeOperationError(this.getNode(), `Unknown resource: ${resource}`, {
+						itemIndex: i,
+					});
 				}
-			} else if (resource === 'file') {
-				const executionData = await handleFile.call(this, i);
+
+				const response = returnAll
+					? await gitlabApiRequestAllItems.call(this, requestMethod, endpoint, body, qs, i)
+					: await gitlabApiRequest.call(this, requestMethod, endpoint, body, qs, {}, i);
+
+				const executionData = this.helpers.constructExecutionMetaData(
+					this.helpers.returnJsonArray(response as IDataObject),
+					{ itemData: { item: i } },
+				);
 				returnData.push(...executionData);
-				continue;
-			} else if (resource === 'issue') {
-				if (operation === 'create') {
-					requestMethod = 'POST';
-					body.title = this.getNodeParameter('title', i);
-					addOptionalStringParam.call(this, body, 'description', 'description', i);
-					const labels = this.getNodeParameter('issueLabels', i, '');
-					if (labels) body.labels = labels;
-					endpoint = `${base}/issues`;
-				} else if (operation === 'get') {
-					requestMethod = 'GET';
-					const id = this.getNodeParameter('issueIid', i) as number;
-					requirePositive.call(this, id, 'issueIid', i);
-					endpoint = `${base}/issues/${id}`;
-				} else if (operation === 'getAll') {
-					requestMethod = 'GET';
-					returnAll = this.getNodeParameter('returnAll', i);
-					if (!returnAll) qs.per_page = this.getNodeParameter('limit', i);
-					endpoint = `${base}/issues`;
-				} else if (operation === 'update') {
-					requestMethod = 'PUT';
-					const id = this.getNodeParameter('issueIid', i) as number;
-					requirePositive.call(this, id, 'issueIid', i);
-					body.title = this.getNodeParameter('title', i);
-					addOptionalStringParam.call(this, body, 'description', 'description', i);
-					const labels = this.getNodeParameter('issueLabels', i, '');
-					if (labels) body.labels = labels;
-					if (Object.prototype.hasOwnProperty.call(this.getNode().parameters, 'issueState')) {
-						body.state_event = this.getNodeParameter('issueState', i);
-					}
-					endpoint = `${base}/issues/${id}`;
-				} else if (operation === 'close' || operation === 'reopen') {
-					requestMethod = 'PUT';
-					const id = this.getNodeParameter('issueIid', i) as number;
-					requirePositive.call(this, id, 'issueIid', i);
-					body.state_event = operation === 'close' ? 'close' : 'reopen';
-					endpoint = `${base}/issues/${id}`;
+			} catch (error) {
+				if (!this.continueOnFail() && !errorOutput) {
+					throw error;
 				}
-			} else if (resource === 'mergeRequest') {
-				const executionData = await handleMergeRequest.call(this, i);
-				returnData.push(...executionData);
-				continue;
-			} else if (resource === 'raw') {
-				if (operation === 'request') {
-					requestMethod = this.getNodeParameter('httpMethod', i) as IHttpRequestMethods;
-					endpoint = this.getNodeParameter('endpoint', i) as string;
-					body = this.getNodeParameter('content', i, {}) as IDataObject;
-					qs = this.getNodeParameter('queryParameters', i, {}) as IDataObject;
+				const errorItem: INodeExecutionData = {
+					json: buildErrorData(error, i),
+					pairedItem: combineItems ? items.map((_item, item) => ({ item })) : { item: i },
+				};
+				if (errorOutput) {
+					errorData.push(errorItem);
+				} else {
+					returnData.push(errorItem);
 				}
-			} else {
-				throw new NodeOperationError(this.getNode(), `Unknown resource: ${resource}`, {
-					itemIndex: i,
-				});
 			}
-
-			const response = returnAll
-				? await gitlabApiRequestAllItems.call(this, requestMethod, endpoint, body, qs, i)
-				: await gitlabApiRequest.call(this, requestMethod, endpoint, body, qs, {}, i);
-
-			const executionData = this.helpers.constructExecutionMetaData(
-				this.helpers.returnJsonArray(response as IDataObject),
-				{ itemData: { item: i } },
-			);
-			returnData.push(...executionData);
 		}
 
-		return [returnData];
+		return errorOutput ? [returnData, errorData] : [returnData];
 	}
 }
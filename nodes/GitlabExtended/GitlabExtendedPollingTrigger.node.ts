@@ -0,0 +1,190 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+
+import {
+	gitlabApiRequest,
+	gitlabApiRequestAllItems,
+	buildProjectBase,
+	assertValidProjectCredentials,
+	resolveCredential,
+} from './GenericFunctions';
+
+const resourceEndpoints: Record<string, string> = {
+	issue: 'issues',
+	mergeRequest: 'merge_requests',
+	pipeline: 'pipelines',
+};
+
+export class GitlabExtendedPollingTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'GitLab Extended Polling Trigger',
+		name: 'gitlabExtendedPollingTrigger',
+		icon: 'file:gitlab.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Polls GitLab for new or changed merge requests, issues or pipelines',
+		defaults: { name: 'GitLab Extended Polling Trigger' },
+		subtitle: '={{$parameter["resource"]}}',
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'gitlabExtendedApi',
+				required: false,
+				displayOptions: { show: { authentication: ['credential'] } },
+			},
+			{
+				name: 'gitlabExtendedOAuth2Api',
+				required: true,
+				displayOptions: { show: { authentication: ['oAuth2'] } },
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{ name: 'Credential', value: 'credential' },
+					{ name: 'Custom', value: 'custom' },
+					{ name: 'OAuth2', value: 'oAuth2' },
+				],
+				default: 'credential',
+				description: 'Select whether to use saved credentials or custom fields for this node',
+			},
+			{
+				displayName: 'GitLab Server',
+				name: 'server',
+				type: 'string',
+				default: 'https://gitlab.com',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Base URL of your GitLab instance, for example "https://gitlab.com"',
+			},
+			{
+				displayName: 'Access Token',
+				name: 'accessToken',
+				type: 'string',
+				typeOptions: { password: true },
+				default: '',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Personal access token with API permissions',
+			},
+			{
+				displayName: 'Project Owner',
+				name: 'projectOwner',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Namespace or owner of the project. Ignored if "Project ID" is set.',
+			},
+			{
+				displayName: 'Project Name',
+				name: 'projectName',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Project slug or name. Ignored if "Project ID" is set.',
+			},
+			{
+				displayName: 'Project ID',
+				name: 'projectId',
+				type: 'number',
+				default: 0,
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Numeric project ID. Takes precedence over owner and name if provided.',
+			},
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{ name: 'Issue', value: 'issue' },
+					{ name: 'Merge Request', value: 'mergeRequest' },
+					{ name: 'Pipeline', value: 'pipeline' },
+				],
+				default: 'mergeRequest',
+				description: 'Resource to watch for new or changed entries',
+			},
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const pollData = this.getWorkflowStaticData('node');
+		const resource = this.getNodeParameter('resource') as string;
+		const credential = await resolveCredential.call(this);
+		assertValidProjectCredentials.call(this, credential);
+		const endpoint = `${buildProjectBase(credential)}/${resourceEndpoints[resource]}`;
+
+		if (this.getMode() === 'manual') {
+			const sample = (await gitlabApiRequest.call(
+				this,
+				'GET',
+				endpoint,
+				{},
+				{ order_by: 'updated_at', sort: 'desc', per_page: 1 },
+			)) as IDataObject[];
+			return sample.length ? [this.helpers.returnJsonArray(sample)] : null;
+		}
+
+		// The first poll only records the high-water mark so existing entries are not replayed.
+		// The mark comes from GitLab's newest `updated_at` rather than the local clock, which may
+		// run ahead of the server. `null` means the project had no entries yet.
+		if (pollData.lastUpdatedAt === undefined) {
+			const newest = (await gitlabApiRequest.call(
+				this,
+				'GET',
+				endpoint,
+				{},
+				{ order_by: 'updated_at', sort: 'desc', per_page: 1 },
+			)) as IDataObject[];
+			pollData.lastUpdatedAt = (newest[0]?.updated_at as string | undefined) ?? null;
+			pollData.seenIds = newest.map((item) => item.id);
+			return null;
+		}
+		const lastUpdatedAt = pollData.lastUpdatedAt as string | null;
+		const seenIds = (pollData.seenIds as number[] | undefined) ?? [];
+
+		const query: IDataObject = { order_by: 'updated_at', sort: 'asc' };
+		if (lastUpdatedAt !== null) query.updated_after = lastUpdatedAt;
+		const items = (await gitlabApiRequestAllItems.call(
+			this,
+			'GET',
+			endpoint,
+			{},
+			query,
+		)) as IDataObject[];
+
+		// `updated_after` is inclusive. Entries sharing the mark's timestamp may still be new,
+		// so only those whose IDs were already emitted at the mark are dropped.
+		const mark = lastUpdatedAt === null ? -Infinity : Date.parse(lastUpdatedAt);
+		const changed = items.filter((item) => {
+			const updatedAt = Date.parse(item.updated_at as string);
+			return updatedAt > mark || (updatedAt === mark && !seenIds.includes(item.id as number));
+		});
+		if (changed.length === 0) {
+			return null;
+		}
+
+		const latest = changed.reduce(
+			(newest, item) =>
+				Date.parse(item.updated_at as string) > Date.parse(newest)
+					? (item.updated_at as string)
+					: newest,
+			changed[0].updated_at as string,
+		);
+		const latestIds = changed
+			.filter((item) => Date.parse(item.updated_at as string) === Date.parse(latest))
+			.map((item) => item.id as number);
+		pollData.seenIds = Date.parse(latest) === mark ? [...seenIds, ...latestIds] : latestIds;
+		pollData.lastUpdatedAt = latest;
+		return [this.helpers.returnJsonArray(changed)];
+	}
+}
@@ -0,0 +1,242 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type {
+	IDataObject,
+	IHookFunctions,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+
+import {
+	gitlabApiRequest,
+	buildProjectBase,
+	assertValidProjectCredentials,
+	resolveCredential,
+} from './GenericFunctions';
+
+/**
+ * Project hook flags that can be toggled by the trigger. Each value maps to
+ * the `<event>_events` field of the GitLab project hooks API.
+ */
+const hookEvents = ['job', 'merge_requests', 'note', 'pipeline', 'push', 'releases', 'tag_push'];
+
+/**
+ * Whether the `X-Gitlab-Token` header matches the stored hook secret. Requests
+ * are rejected when either is missing, so a lost secret does not fail open.
+ */
+function isValidToken(header: unknown, secret: unknown): boolean {
+	if (typeof header !== 'string' || typeof secret !== 'string' || !secret) return false;
+	const received = Buffer.from(header);
+	const expected = Buffer.from(secret);
+	return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export class GitlabExtendedTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'GitLab Extended Trigger',
+		name: 'gitlabExtendedTrigger',
+		icon: 'file:gitlab.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Starts the workflow when GitLab project events occur',
+		defaults: { name: 'GitLab Extended Trigger' },
+		subtitle: '={{$parameter["events"].join(", ")}}',
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'gitlabExtendedApi',
+				required: false,
+				displayOptions: { show: { authentication: ['credential'] } },
+			},
+			{
+				name: 'gitlabExtendedOAuth2Api',
+				required: true,
+				displayOptions: { show: { authentication: ['oAuth2'] } },
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{ name: 'Credential', value: 'credential' },
+					{ name: 'Custom', value: 'custom' },
+					{ name: 'OAuth2', value: 'oAuth2' },
+				],
+				default: 'credential',
+				description: 'Select whether to use saved credentials or custom fields for this node',
+			},
+			{
+				displayName: 'GitLab Server',
+				name: 'server',
+				type: 'string',
+				default: 'https://gitlab.com',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Base URL of your GitLab instance, for example "https://gitlab.com"',
+			},
+			{
+				displayName: 'Access Token',
+				name: 'accessToken',
+				type: 'string',
+				typeOptions: { password: true },
+				default: '',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Personal access token with API permissions',
+			},
+			{
+				displayName: 'Project Owner',
+				name: 'projectOwner',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Namespace or owner of the project. Ignored if "Project ID" is set.',
+			},
+			{
+				displayName: 'Project Name',
+				name: 'projectName',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Project slug or name. Ignored if "Project ID" is set.',
+			},
+			{
+				displayName: 'Project ID',
+				name: 'projectId',
+				type: 'number',
+				default: 0,
+				displayOptions: { show: { authentication: ['custom'] } },
+				description: 'Numeric project ID. Takes precedence over owner and name if provided.',
+			},
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				required: true,
+				options: [
+					{ name: 'Job', value: 'job', description: 'Triggered when a job status changes' },
+					{
+						name: 'Merge Request',
+						value: 'merge_requests',
+						description: 'Triggered when a merge request is created, updated or merged',
+					},
+					{
+						name: 'Note',
+						value: 'note',
+						description: 'Triggered when a comment is made on a commit, issue or merge request',
+					},
+					{
+						name: 'Pipeline',
+						value: 'pipeline',
+						description: 'Triggered when a pipeline status changes',
+					},
+					{ name: 'Push', value: 'push', description: 'Triggered when commits are pushed' },
+					{
+						name: 'Release',
+						value: 'releases',
+						description: 'Triggered when a release is created, updated or deleted',
+					},
+					{
+						name: 'Tag Push',
+						value: 'tag_push',
+						description: 'Triggered when a tag is created or deleted',
+					},
+				],
+				default: [],
+				description: 'Project events that should start the workflow',
+			},
+		],
+	};
+
+	webhookMethods = {
+		default: {
+			async checkExists(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				if (webhookData.webhookId === undefined) {
+					return false;
+				}
+				const credential = await resolveCredential.call(this);
+				assertValidProjectCredentials.call(this, credential);
+				const endpoint = `${buildProjectBase(credential)}/hooks/${webhookData.webhookId}`;
+				try {
+					await gitlabApiRequest.call(this, 'GET', endpoint, {});
+				} catch (error) {
+					if (error.httpCode === '404') {
+						delete webhookData.webhookId;
+						delete webhookData.webhookSecret;
+						return false;
+					}
+					throw error;
+				}
+				return true;
+			},
+
+			async create(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				const webhookUrl = this.getNodeWebhookUrl('default') as string;
+				const events = this.getNodeParameter('events', []) as string[];
+				const credential = await resolveCredential.call(this);
+				assertValidProjectCredentials.call(this, credential);
+
+				const secret = randomBytes(32).toString('hex');
+				const body: IDataObject = { url: webhookUrl, token: secret };
+				for (const event of hookEvents) {
+					// GitLab enables push events by default, so every flag is sent explicitly
+					body[`${event}_events`] = events.includes(event);
+				}
+
+				const endpoint = `${buildProjectBase(credential)}/hooks`;
+				const responseData = await gitlabApiRequest.call(this, 'POST', endpoint, body);
+				if (responseData.id === undefined) {
+					return false;
+				}
+				webhookData.webhookId = responseData.id as number;
+				webhookData.webhookSecret = secret;
+				return true;
+			},
+
+			async delete(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				if (webhookData.webhookId !== undefined) {
+					const credential = await resolveCredential.call(this);
+					assertValidProjectCredentials.call(this, credential);
+					const endpoint = `${buildProjectBase(credential)}/hooks/${webhookData.webhookId}`;
+					try {
+						await gitlabApiRequest.call(this, 'DELETE', endpoint, {});
+					} catch (error) {
+						return false;
+					}
+					delete webhookData.webhookId;
+					delete webhookData.webhookSecret;
+				}
+				return true;
+			},
+		},
+	};
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const webhookData = this.getWorkflowStaticData('node');
+		const headerData = this.getHeaderData();
+		if (!isValidToken(headerData['x-gitlab-token'], webhookData.webhookSecret)) {
+			const res = this.getResponseObject();
+			res.status(403).json({ message: 'Provided secret is not valid' });
+			return { noWebhookResponse: true };
+		}
+
+		const bodyData = this.getBodyData();
+		return {
+			workflowData: [this.helpers.returnJsonArray(bodyData)],
+		};
+	}
+}
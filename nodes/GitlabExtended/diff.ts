@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+
+export type DiffLineType = 'context' | 'added' | 'removed';
+
+/**
+ * A single line of a diff hunk. `oldLine` is `null` for added lines and
+ * `newLine` is `null` for removed lines, matching the position API.
+ */
+export interface DiffLine {
+	type: DiffLineType;
+	oldLine: number | null;
+	newLine: number | null;
+	content: string;
+	lineCode: string;
+}
+
+export interface DiffHunk {
+	header: string;
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: DiffLine[];
+}
+
+const hunkHeaderPattern = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Build a GitLab line code, the SHA1 of the file path followed by the old
+ * and new line counters, e.g. `<sha1>_4_5`.
+ */
+export function buildLineCode(path: string, oldLine: number, newLine: number): string {
+	const hash = createHash('sha1').update(path).digest('hex');
+	return `${hash}_${oldLine}_${newLine}`;
+}
+
+/**
+ * Parse a unified diff into hunks. Line codes use the counters of both sides,
+ * so an added line carries the number of the next old line, as GitLab does.
+ */
+export function parseDiff(diff: string, path: string): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let hunk: DiffHunk | undefined;
+	let oldLine = 0;
+	let newLine = 0;
+	const rows = diff.split('\n');
+	// A trailing newline would otherwise show up as an empty context line
+	if (rows[rows.length - 1] === '') rows.pop();
+	for (const row of rows) {
+		const header = hunkHeaderPattern.exec(row);
+		if (header) {
+			hunk = {
+				header: row,
+				oldStart: Number(header[1]),
+				oldLines: header[2] === undefined ? 1 : Number(header[2]),
+				newStart: Number(header[3]),
+				newLines: header[4] === undefined ? 1 : Number(header[4]),
+				lines: [],
+			};
+			hunks.push(hunk);
+			oldLine = hunk.oldStart;
+			newLine = hunk.newStart;
+			continue;
+		}
+		// Skip file headers before the first hunk and "\ No newline at end of file" markers
+		if (!hunk || row.startsWith('\\')) continue;
+		const marker = row[0];
+		const content = row.slice(1);
+		const lineCode = buildLineCode(path, oldLine, newLine);
+		if (marker === '+') {
+			hunk.lines.push({ type: 'added', oldLine: null, newLine, content, lineCode });
+			newLine++;
+		} else if (marker === '-') {
+			hunk.lines.push({ type: 'removed', oldLine, newLine: null, content, lineCode });
+			oldLine++;
+		} else {
+			hunk.lines.push({ type: 'context', oldLine, newLine, content, lineCode });
+			oldLine++;
+			newLine++;
+		}
+	}
+	return hunks;
+}
+
+/** A changed file of a merge request together with its parsed hunks. */
+export interface DiffFile {
+	oldPath: string;
+	newPath: string;
+	hunks: DiffHunk[];
+}
+
+/** The `diff_refs` of a merge request version. */
+export interface DiffRefs {
+	base_sha: string;
+	head_sha: string;
+	start_sha: string;
+}
+
+/**
+ * Find the diff line with the given number on the old or new side of a file.
+ */
+export function findDiffLine(
+	file: DiffFile,
+	side: 'old' | 'new',
+	line: number,
+): DiffLine | undefined {
+	for (const hunk of file.hunks) {
+		const match = hunk.lines.find((entry) =>
+			side === 'new' ? entry.newLine === line : entry.oldLine === line,
+		);
+		if (match) return match;
+	}
+	return undefined;
+}
+
+function rangeEndpoint(line: DiffLine): Record<string, string | number> {
+	const endpoint: Record<string, string | number> = {
+		line_code: line.lineCode,
+		type: line.type === 'added' ? 'new' : 'old',
+	};
+	if (line.oldLine !== null) endpoint.old_line = line.oldLine;
+	if (line.newLine !== null) endpoint.new_line = line.newLine;
+	return endpoint;
+}
+
+/**
+ * Build the text position of a discussion on one line, or on a range of lines
+ * when `endLine` is given. The note is anchored to the last line of a range, as
+ * in the GitLab UI. Returns `undefined` when a line is not part of the diff.
+ */
+export function buildDiffPosition(
+	file: DiffFile,
+	diffRefs: DiffRefs,
+	side: 'old' | 'new',
+	line: number,
+	endLine?: number,
+): Record<string, unknown> | undefined {
+	const start = findDiffLine(file, side, line);
+	const end = endLine !== undefined && endLine !== line ? findDiffLine(file, side, endLine) : start;
+	if (!start || !end) return undefined;
+	const position: Record<string, unknown> = {
+		position_type: 'text',
+		base_sha: diffRefs.base_sha,
+		head_sha: diffRefs.head_sha,
+		start_sha: diffRefs.start_sha,
+		old_path: file.oldPath,
+		new_path: file.newPath,
+	};
+	if (end.oldLine !== null) position.old_line = end.oldLine;
+	if (end.newLine !== null) position.new_line = end.newLine;
+	if (end !== start) {
+		position.line_range = { start: rangeEndpoint(start), end: rangeEndpoint(end) };
+	}
+	return position;
+}
+
+/**
+ * Build a GitLab suggestion block replacing the commented line, extended by
+ * `linesAbove` and `linesBelow` lines, with the given code.
+ */
+export function buildSuggestion(code: string, linesAbove = 0, linesBelow = 0): string {
+	const range = linesAbove || linesBelow ? `:-${linesAbove}+${linesBelow}` : '';
+	// A longer fence keeps code that contains a fence itself intact
+	const fence = code.includes('```') ? '````' : '```';
+	return `${fence}suggestion${range}\n${code}\n${fence}`;
+}
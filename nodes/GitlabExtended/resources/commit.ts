@@ -0,0 +1,177 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	IHttpRequestMethods,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	gitlabApiRequest,
+	gitlabApiRequestAllItems,
+	buildProjectBase,
+	assertValidProjectCredentials,
+	resolveCredential,
+} from '../GenericFunctions';
+import { requireString } from '../validators';
+
+/**
+ * Converts the `commitActions` entries of one item into entries of the
+ * `actions` array expected by the commits API.
+ */
+function buildCommitActions(this: IExecuteFunctions, itemIndex: number): IDataObject[] {
+	const collection = this.getNodeParameter('commitActions', itemIndex, {}) as IDataObject;
+	const entries = (collection.action as IDataObject[] | undefined) ?? [];
+	return entries.map((entry) => {
+		const action: IDataObject = { action: entry.action, file_path: entry.filePath };
+		requireString.call(this, entry.filePath as string, 'filePath', itemIndex);
+		if (entry.action === 'move') {
+			requireString.call(this, entry.previousPath as string, 'previousPath', itemIndex);
+			action.previous_path = entry.previousPath;
+		}
+		if (entry.action === 'chmod') {
+			action.execute_filemode = entry.executeFilemode ?? false;
+		} else if (entry.action !== 'delete' && entry.content !== undefined && entry.content !== '') {
+			action.content = entry.content;
+			if (entry.encoding) action.encoding = entry.encoding;
+		}
+		if (entry.lastCommitId) action.last_commit_id = entry.lastCommitId;
+		return action;
+	});
+}
+
+/**
+ * Reads and validates the `commitSha` parameter, encoding it for use in a URL
+ * because branch and tag names are accepted as well.
+ */
+function getCommitSha(this: IExecuteFunctions, itemIndex: number): string {
+	const sha = this.getNodeParameter('commitSha', itemIndex) as string;
+	requireString.call(this, sha, 'commitSha', itemIndex);
+	return encodeURIComponent(sha);
+}
+
+/**
+ * Handles the commit resource: creating a single commit from several file
+ * actions, inspecting commits, cherry-picking, reverting, commenting and
+ * reading or writing commit statuses.
+ *
+ * @param {IExecuteFunctions} this - The execution context, providing access to workflow utilities.
+ * @param {number} itemIndex - The index of the current item being processed.
+ * @returns {Promise<INodeExecutionData[]>} A promise that resolves to an array of node execution data.
+ */
+export async function handleCommit(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', itemIndex);
+	const credential = await resolveCredential.call(this, itemIndex);
+	assertValidProjectCredentials.call(this, credential);
+
+	const base = buildProjectBase(credential);
+
+	let requestMethod: IHttpRequestMethods = 'GET';
+	let endpoint = '';
+	let body: IDataObject = {};
+	let qs: IDataObject = {};
+	let returnAll = false;
+	let pairedItems = [itemIndex];
+
+	if (operation === 'create') {
+		requestMethod = 'POST';
+		body.branch = this.getNodeParameter('commitBranch', itemIndex);
+		requireString.call(this, body.branch as string, 'commitBranch', itemIndex);
+		body.commit_message = this.getNodeParameter('commitMessage', itemIndex);
+		const source = this.getNodeParameter('commitActionsSource', itemIndex, 'fixed') as string;
+		if (source === 'items') {
+			// Every input item contributes its actions to one shared commit
+			pairedItems = this.getInputData().map((_item, index) => index);
+			body.actions = pairedItems.flatMap((index) => buildCommitActions.call(this, index));
+		} else {
+			body.actions = buildCommitActions.call(this, itemIndex);
+		}
+		if ((body.actions as IDataObject[]).length === 0) {
+			throw new NodeOperationError(this.getNode(), 'At least one commit action is required', {
+				itemIndex,
+			});
+		}
+		const options = this.getNodeParameter('commitOptions', itemIndex, {}) as IDataObject;
+		if (options.startBranch) body.start_branch = options.startBranch;
+		if (options.startSha) body.start_sha = options.startSha;
+		if (options.authorName) body.author_name = options.authorName;
+		if (options.authorEmail) body.author_email = options.authorEmail;
+		if (options.force !== undefined) body.force = options.force;
+		endpoint = `${base}/repository/commits`;
+	} else if (operation === 'getAll') {
+		requestMethod = 'GET';
+		returnAll = this.getNodeParameter('returnAll', itemIndex);
+		if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		const filters = this.getNodeParameter('commitFilters', itemIndex, {}) as IDataObject;
+		if (filters.refName) qs.ref_name = filters.refName;
+		if (filters.path) qs.path = filters.path;
+		if (filters.author) qs.author = filters.author;
+		if (filters.since) qs.since = filters.since;
+		if (filters.until) qs.until = filters.until;
+		if (filters.firstParent) qs.first_parent = true;
+		endpoint = `${base}/repository/commits`;
+	} else if (operation === 'setStatus') {
+		requestMethod = 'POST';
+		const sha = getCommitSha.call(this, itemIndex);
+		body.state = this.getNodeParameter('statusState', itemIndex);
+		const options = this.getNodeParameter('statusOptions', itemIndex, {}) as IDataObject;
+		if (options.name) body.name = options.name;
+		if (options.ref) body.ref = options.ref;
+		if (options.targetUrl) body.target_url = options.targetUrl;
+		if (options.description) body.description = options.description;
+		if (options.coverage !== undefined) body.coverage = options.coverage;
+		if (options.pipelineId) body.pipeline_id = options.pipelineId;
+		endpoint = `${base}/statuses/${sha}`;
+	} else if (operation === 'get') {
+		requestMethod = 'GET';
+		const sha = getCommitSha.call(this, itemIndex);
+		endpoint = `${base}/repository/commits/${sha}`;
+	} else if (operation === 'getDiff' || operation === 'getStatuses') {
+		requestMethod = 'GET';
+		const sha = getCommitSha.call(this, itemIndex);
+		returnAll = this.getNodeParameter('returnAll', itemIndex);
+		if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		const path = operation === 'getDiff' ? 'diff' : 'statuses';
+		endpoint = `${base}/repository/commits/${sha}/${path}`;
+	} else if (operation === 'getRefs') {
+		requestMethod = 'GET';
+		const sha = getCommitSha.call(this, itemIndex);
+		qs.type = this.getNodeParameter('refType', itemIndex, 'all');
+		endpoint = `${base}/repository/commits/${sha}/refs`;
+	} else if (operation === 'cherryPick' || operation === 'revert') {
+		requestMethod = 'POST';
+		const sha = getCommitSha.call(this, itemIndex);
+		body.branch = this.getNodeParameter('commitBranch', itemIndex);
+		requireString.call(this, body.branch as string, 'commitBranch', itemIndex);
+		const options = this.getNodeParameter('commitChangeOptions', itemIndex, {}) as IDataObject;
+		if (options.dryRun) body.dry_run = true;
+		if (operation === 'cherryPick' && options.message) body.message = options.message;
+		const path = operation === 'cherryPick' ? 'cherry_pick' : 'revert';
+		endpoint = `${base}/repository/commits/${sha}/${path}`;
+	} else if (operation === 'createComment') {
+		requestMethod = 'POST';
+		const sha = getCommitSha.call(this, itemIndex);
+		body.note = this.getNodeParameter('commitNote', itemIndex);
+		requireString.call(this, body.note as string, 'commitNote', itemIndex);
+		const options = this.getNodeParameter('commitCommentOptions', itemIndex, {}) as IDataObject;
+		if (options.path) body.path = options.path;
+		if (options.line) body.line = options.line;
+		if (options.lineType) body.line_type = options.lineType;
+		endpoint = `${base}/repository/commits/${sha}/comments`;
+	} else {
+		throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported.`, {
+			itemIndex,
+		});
+	}
+
+	const response = returnAll
+		? await gitlabApiRequestAllItems.call(this, requestMethod, endpoint, body, qs, itemIndex)
+		: await gitlabApiRequest.call(this, requestMethod, endpoint, body, qs, {}, itemIndex);
+
+	return this.helpers.constructExecutionMetaData(
+		this.helpers.returnJsonArray(response as IDataObject),
+		{ itemData: pairedItems.map((item) => ({ item })) },
+	);
+}
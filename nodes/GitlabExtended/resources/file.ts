@@ -11,8 +11,53 @@ import {
 	buildProjectBase,
 	assertValidProjectCredentials,
 	resolveCredential,
+	gitlabApiDownload,
 } from '../GenericFunctions';
 
+/**
+ * Decodes the base64 `content` returned by the repository files API into text,
+ * parsed JSON or an n8n binary property.
+ */
+async function decodeFile(
+	this: IExecuteFunctions,
+	file: IDataObject,
+	decode: string,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	const buffer = Buffer.from((file.content as string) ?? '', 'base64');
+	const { content, ...metadata } = file;
+	if (decode === 'binary') {
+		const binaryPropertyName = this.getNodeParameter(
+			'binaryPropertyName',
+			itemIndex,
+			'data',
+		) as string;
+		const binaryData = await this.helpers.prepareBinaryData(buffer, file.file_name as string);
+		return {
+			json: metadata,
+			binary: { [binaryPropertyName]: binaryData },
+			pairedItem: { item: itemIndex },
+		};
+	}
+	const text = buffer.toString('utf8');
+	let decoded: unknown = text;
+	if (decode === 'json') {
+		try {
+			decoded = JSON.parse(text);
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`The content of "${file.file_path}" is not valid JSON`,
+				{ itemIndex },
+			);
+		}
+	}
+	return {
+		json: { ...metadata, encoding: decode, content: decoded } as IDataObject,
+		pairedItem: { item: itemIndex },
+	};
+}
+
 export async function handleFile(
 	this: IExecuteFunctions,
 	itemIndex: number,
@@ -34,6 +79,41 @@ export async function handleFile(
 		const path = this.getNodeParameter('path', itemIndex);
 		qs.ref = this.getNodeParameter('fileRef', itemIndex);
 		endpoint = `${base}/repository/files/${encodeURIComponent(path as string)}`;
+		const decode = this.getNodeParameter('fileDecode', itemIndex, 'none') as string;
+		if (decode !== 'none') {
+			const file = (await gitlabApiRequest.call(
+				this,
+				requestMethod,
+				endpoint,
+				body,
+				qs,
+				{},
+				itemIndex,
+			)) as IDataObject;
+			return [await decodeFile.call(this, file, decode, itemIndex)];
+		}
+	} else if (operation === 'getRaw') {
+		const path = this.getNodeParameter('path', itemIndex) as string;
+		const ref = this.getNodeParameter('fileRef', itemIndex) as string;
+		const binaryPropertyName = this.getNodeParameter(
+			'binaryPropertyName',
+			itemIndex,
+			'data',
+		) as string;
+		const binaryData = await gitlabApiDownload.call(
+			this,
+			`${base}/repository/files/${encodeURIComponent(path)}/raw`,
+			{ ref },
+			path.split('/').pop() as string,
+			itemIndex,
+		);
+		return [
+			{
+				json: { file_path: path, ref },
+				binary: { [binaryPropertyName]: binaryData },
+				pairedItem: { item: itemIndex },
+			},
+		];
 	} else if (operation === 'list') {
 		requestMethod = 'GET';
 		const path = this.getNodeParameter('path', itemIndex);
@@ -47,7 +127,19 @@ export async function handleFile(
 		const path = this.getNodeParameter('path', itemIndex);
 		body.branch = this.getNodeParameter('fileBranch', itemIndex);
 		body.commit_message = this.getNodeParameter('commitMessage', itemIndex);
-		body.content = this.getNodeParameter('fileContent', itemIndex);
+		if (this.getNodeParameter('fileBinaryData', itemIndex, false)) {
+			const binaryPropertyName = this.getNodeParameter(
+				'binaryPropertyName',
+				itemIndex,
+				'data',
+			) as string;
+			this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+			const buffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+			body.content = buffer.toString('base64');
+			body.encoding = 'base64';
+		} else {
+			body.content = this.getNodeParameter('fileContent', itemIndex);
+		}
 		endpoint = `${base}/repository/files/${encodeURIComponent(path as string)}`;
 	} else if (operation === 'delete') {
 		requestMethod = 'DELETE';
@@ -0,0 +1,225 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	IHttpRequestMethods,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	gitlabApiRequest,
+	gitlabApiRequestAllItems,
+	buildProjectBase,
+	assertValidProjectCredentials,
+	addOptionalStringParam,
+	parseIdList,
+	resolveCredential,
+} from '../GenericFunctions';
+import { requirePositive, requireString } from '../validators';
+
+/**
+ * Copies the `issueFields` collection onto an issue create or update body.
+ */
+function applyIssueFields(body: IDataObject, fields: IDataObject, update: boolean): void {
+	if (fields.assigneeIds !== undefined)
+		body.assignee_ids = parseIdList(fields.assigneeIds as string);
+	if (fields.milestoneId !== undefined) body.milestone_id = fields.milestoneId;
+	// GitLab expects a plain date, while the date picker returns a full timestamp
+	if (fields.dueDate) body.due_date = (fields.dueDate as string).slice(0, 10);
+	if (fields.weight !== undefined) body.weight = fields.weight;
+	if (fields.confidential !== undefined) body.confidential = fields.confidential;
+	if (fields.issueType) body.issue_type = fields.issueType;
+	if (fields.epicId) body.epic_id = fields.epicId;
+	if (update) {
+		if (fields.addLabels) body.add_labels = fields.addLabels;
+		if (fields.removeLabels) body.remove_labels = fields.removeLabels;
+	}
+}
+
+/**
+ * Copies the `issueFilters` collection onto the query of an issue listing.
+ */
+function applyIssueFilters(qs: IDataObject, filters: IDataObject): void {
+	const mapping: Record<string, string> = {
+		state: 'state',
+		labels: 'labels',
+		search: 'search',
+		assigneeUsername: 'assignee_username',
+		authorUsername: 'author_username',
+		milestone: 'milestone',
+		createdAfter: 'created_after',
+		createdBefore: 'created_before',
+		updatedAfter: 'updated_after',
+		updatedBefore: 'updated_before',
+		orderBy: 'order_by',
+		sort: 'sort',
+		scope: 'scope',
+	};
+	for (const [key, param] of Object.entries(mapping)) {
+		if (filters[key] !== undefined && filters[key] !== '') qs[param] = filters[key];
+	}
+}
+
+/** Time tracking operations and the issue endpoint each one posts to. */
+const timeTrackingEndpoints: Record<string, string> = {
+	setTimeEstimate: 'time_estimate',
+	resetTimeEstimate: 'reset_time_estimate',
+	addSpentTime: 'add_spent_time',
+	resetSpentTime: 'reset_spent_time',
+};
+
+/**
+ * Handles issue operations such as creating, updating, listing and closing
+ * issues, their notes and links, moving or cloning them and tracking time.
+ *
+ * @param {IExecuteFunctions} this - The execution context, providing access to workflow utilities.
+ * @param {number} itemIndex - The index of the current item being processed.
+ * @returns {Promise<INodeExecutionData[]>} A promise that resolves to an array of node execution data.
+ */
+export async function handleIssue(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', itemIndex);
+	const credential = await resolveCredential.call(this, itemIndex);
+	assertValidProjectCredentials.call(this, credential);
+
+	const base = buildProjectBase(credential);
+
+	let requestMethod: IHttpRequestMethods = 'GET';
+	let endpoint = '';
+	let body: IDataObject = {};
+	let qs: IDataObject = {};
+	let returnAll = false;
+
+	if (operation === 'create') {
+		requestMethod = 'POST';
+		body.title = this.getNodeParameter('title', itemIndex);
+		addOptionalStringParam.call(this, body, 'description', 'description', itemIndex);
+		const labels = this.getNodeParameter('issueLabels', itemIndex, '');
+		if (labels) body.labels = labels;
+		const fields = this.getNodeParameter('issueFields', itemIndex, {}) as IDataObject;
+		applyIssueFields(body, fields, false);
+		endpoint = `${base}/issues`;
+	} else if (operation === 'get') {
+		requestMethod = 'GET';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		endpoint = `${base}/issues/${id}`;
+	} else if (operation === 'getAll') {
+		requestMethod = 'GET';
+		returnAll = this.getNodeParameter('returnAll', itemIndex);
+		if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		const filters = this.getNodeParameter('issueFilters', itemIndex, {}) as IDataObject;
+		applyIssueFilters(qs, filters);
+		endpoint = `${base}/issues`;
+	} else if (operation === 'update') {
+		requestMethod = 'PUT';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		body.title = this.getNodeParameter('title', itemIndex);
+		addOptionalStringParam.call(this, body, 'description', 'description', itemIndex);
+		const labels = this.getNodeParameter('issueLabels', itemIndex, '');
+		if (labels) body.labels = labels;
+		if (Object.prototype.hasOwnProperty.call(this.getNode().parameters, 'issueState')) {
+			body.state_event = this.getNodeParameter('issueState', itemIndex);
+		}
+		const fields = this.getNodeParameter('issueFields', itemIndex, {}) as IDataObject;
+		applyIssueFields(body, fields, true);
+		endpoint = `${base}/issues/${id}`;
+	} else if (operation === 'close' || operation === 'reopen') {
+		requestMethod = 'PUT';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		body.state_event = operation === 'close' ? 'close' : 'reopen';
+		endpoint = `${base}/issues/${id}`;
+	} else if (operation === 'createNote' || operation === 'getNotes') {
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		if (operation === 'createNote') {
+			requestMethod = 'POST';
+			body.body = this.getNodeParameter('body', itemIndex);
+			requireString.call(this, body.body as string, 'body', itemIndex);
+		} else {
+			requestMethod = 'GET';
+			returnAll = this.getNodeParameter('returnAll', itemIndex);
+			if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		}
+		endpoint = `${base}/issues/${id}/notes`;
+	} else if (operation === 'updateNote' || operation === 'deleteNote') {
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		const noteId = this.getNodeParameter('noteId', itemIndex) as number;
+		requirePositive.call(this, noteId, 'noteId', itemIndex);
+		if (operation === 'updateNote') {
+			requestMethod = 'PUT';
+			body.body = this.getNodeParameter('body', itemIndex);
+			requireString.call(this, body.body as string, 'body', itemIndex);
+		} else {
+			requestMethod = 'DELETE';
+		}
+		endpoint = `${base}/issues/${id}/notes/${noteId}`;
+	} else if (operation === 'createLink') {
+		requestMethod = 'POST';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		body.target_project_id = this.getNodeParameter('targetProjectId', itemIndex);
+		requirePositive.call(this, body.target_project_id as number, 'targetProjectId', itemIndex);
+		body.target_issue_iid = this.getNodeParameter('targetIssueIid', itemIndex);
+		requirePositive.call(this, body.target_issue_iid as number, 'targetIssueIid', itemIndex);
+		body.link_type = this.getNodeParameter('issueLinkType', itemIndex, 'relates_to');
+		endpoint = `${base}/issues/${id}/links`;
+	} else if (operation === 'getLinks') {
+		requestMethod = 'GET';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		endpoint = `${base}/issues/${id}/links`;
+	} else if (operation === 'deleteLink') {
+		requestMethod = 'DELETE';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		const linkId = this.getNodeParameter('issueLinkId', itemIndex) as number;
+		requirePositive.call(this, linkId, 'issueLinkId', itemIndex);
+		endpoint = `${base}/issues/${id}/links/${linkId}`;
+	} else if (operation === 'move' || operation === 'clone') {
+		requestMethod = 'POST';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		body.to_project_id = this.getNodeParameter('targetProjectId', itemIndex);
+		requirePositive.call(this, body.to_project_id as number, 'targetProjectId', itemIndex);
+		if (operation === 'clone' && this.getNodeParameter('cloneWithNotes', itemIndex, false)) {
+			body.with_notes = true;
+		}
+		endpoint = `${base}/issues/${id}/${operation}`;
+	} else if (operation in timeTrackingEndpoints) {
+		requestMethod = 'POST';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		if (operation === 'setTimeEstimate' || operation === 'addSpentTime') {
+			body.duration = this.getNodeParameter('timeDuration', itemIndex);
+			requireString.call(this, body.duration as string, 'timeDuration', itemIndex);
+		}
+		if (operation === 'addSpentTime') {
+			const summary = this.getNodeParameter('timeSummary', itemIndex, '') as string;
+			if (summary) body.summary = summary;
+		}
+		endpoint = `${base}/issues/${id}/${timeTrackingEndpoints[operation]}`;
+	} else if (operation === 'getTimeStats') {
+		requestMethod = 'GET';
+		const id = this.getNodeParameter('issueIid', itemIndex) as number;
+		requirePositive.call(this, id, 'issueIid', itemIndex);
+		endpoint = `${base}/issues/${id}/time_stats`;
+	} else {
+		throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported.`, {
+			itemIndex,
+		});
+	}
+
+	const response = returnAll
+		? await gitlabApiRequestAllItems.call(this, requestMethod, endpoint, body, qs, itemIndex)
+		: await gitlabApiRequest.call(this, requestMethod, endpoint, body, qs, {}, itemIndex);
+
+	return this.helpers.constructExecutionMetaData(
+		this.helpers.returnJsonArray(response as IDataObject),
+		{ itemData: { item: itemIndex } },
+	);
+}
@@ -0,0 +1,128 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	IHttpRequestMethods,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	gitlabApiRequest,
+	gitlabApiRequestAllItems,
+	gitlabApiDownload,
+	encodeArtifactPath,
+	buildProjectBase,
+	assertValidProjectCredentials,
+	resolveCredential,
+} from '../GenericFunctions';
+import { requirePositive, requireString } from '../validators';
+
+/**
+ * Handles operations on individual CI jobs, such as fetching a job and its log,
+ * playing manual jobs, retrying, cancelling, erasing and downloading artifact files.
+ *
+ * @param {IExecuteFunctions} this - The execution context, providing access to workflow utilities.
+ * @param {number} itemIndex - The index of the current item being processed.
+ * @returns {Promise<INodeExecutionData[]>} A promise that resolves to an array of node execution data.
+ */
+export async function handleJob(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', itemIndex);
+	const credential = await resolveCredential.call(this, itemIndex);
+	assertValidProjectCredentials.call(this, credential);
+
+	const base = buildProjectBase(credential);
+
+	let requestMethod: IHttpRequestMethods = 'GET';
+	let endpoint = '';
+	let body: IDataObject = {};
+	let qs: IDataObject = {};
+	let returnAll = false;
+
+	if (operation === 'get') {
+		requestMethod = 'GET';
+		const id = this.getNodeParameter('jobId', itemIndex) as number;
+		requirePositive.call(this, id, 'jobId', itemIndex);
+		endpoint = `${base}/jobs/${id}`;
+	} else if (operation === 'getAll') {
+		requestMethod = 'GET';
+		returnAll = this.getNodeParameter('returnAll', itemIndex);
+		if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		const scopes = this.getNodeParameter('jobScope', itemIndex, []) as string[];
+		// GitLab expects repeated `scope[]` parameters for multiple scopes
+		const scopeQuery = scopes.map((scope) => `scope[]=${encodeURIComponent(scope)}`).join('&');
+		endpoint = scopeQuery ? `${base}/jobs?${scopeQuery}` : `${base}/jobs`;
+	} else if (operation === 'getLog') {
+		const id = this.getNodeParameter('jobId', itemIndex) as number;
+		requirePositive.call(this, id, 'jobId', itemIndex);
+		const log = await gitlabApiRequest.call(
+			this,
+			'GET',
+			`${base}/jobs/${id}/trace`,
+			{},
+			undefined,
+			{ json: false },
+			itemIndex,
+		);
+		return this.helpers.constructExecutionMetaData(
+			this.helpers.returnJsonArray({ id, log } as IDataObject),
+			{ itemData: { item: itemIndex } },
+		);
+	} else if (operation === 'play') {
+		requestMethod = 'POST';
+		const id = this.getNodeParameter('jobId', itemIndex) as number;
+		requirePositive.call(this, id, 'jobId', itemIndex);
+		const variables = this.getNodeParameter('jobVariables', itemIndex, {}) as IDataObject;
+		const entries = (variables.variable as IDataObject[] | undefined) ?? [];
+		if (entries.length) {
+			body.job_variables_attributes = entries.map((entry) => ({
+				key: entry.key,
+				value: entry.value,
+			}));
+		}
+		endpoint = `${base}/jobs/${id}/play`;
+	} else if (operation === 'retry' || operation === 'cancel' || operation === 'erase') {
+		requestMethod = 'POST';
+		const id = this.getNodeParameter('jobId', itemIndex) as number;
+		requirePositive.call(this, id, 'jobId', itemIndex);
+		endpoint = `${base}/jobs/${id}/${operation}`;
+	} else if (operation === 'downloadArtifact') {
+		const id = this.getNodeParameter('jobId', itemIndex) as number;
+		requirePositive.call(this, id, 'jobId', itemIndex);
+		const artifactPath = this.getNodeParameter('artifactPath', itemIndex) as string;
+		requireString.call(this, artifactPath, 'artifactPath', itemIndex);
+		const binaryPropertyName = this.getNodeParameter(
+			'binaryPropertyName',
+			itemIndex,
+			'data',
+		) as string;
+		const binaryData = await gitlabApiDownload.call(
+			this,
+			`${base}/jobs/${id}/artifacts/${encodeArtifactPath(artifactPath)}`,
+			{},
+			artifactPath.split('/').pop() as string,
+			itemIndex,
+		);
+		return [
+			{
+				json: { id, artifactPath },
+				binary: { [binaryPropertyName]: binaryData },
+				pairedItem: { item: itemIndex },
+			},
+		];
+	} else {
+		throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported.`, {
+			itemIndex,
+		});
+	}
+
+	const response = returnAll
+		? await gitlabApiRequestAllItems.call(this, requestMethod, endpoint, body, qs, itemIndex)
+		: await gitlabApiRequest.call(this, requestMethod, endpoint, body, qs, {}, itemIndex);
+
+	return this.helpers.constructExecutionMetaData(
+		this.helpers.returnJsonArray(response as IDataObject),
+		{ itemData: { item: itemIndex } },
+	);
+}
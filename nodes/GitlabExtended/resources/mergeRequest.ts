@@ -11,9 +11,370 @@ import {
 	buildProjectBase,
 	assertValidProjectCredentials,
 	addOptionalStringParam,
+	parseIdList,
 	resolveCredential,
 } from '../GenericFunctions';
-import { requirePositive } from '../validators';
+import { requirePositive, requireString } from '../validators';
+import type { DiffFile, DiffRefs } from '../diff';
+import { buildDiffPosition, buildSuggestion, parseDiff } from '../diff';
+
+/** Title prefixes GitLab recognises as marking a merge request as draft. */
+const draftTitlePattern = /^\s*(?:\[draft\]|\(draft\)|draft:)\s*/i;
+
+/**
+ * Copies the `mergeRequestFields` collection onto a merge request create or update body.
+ * GitLab has no draft attribute, so the draft status is applied through the title prefix.
+ */
+function applyMergeRequestFields(body: IDataObject, fields: IDataObject, update: boolean): void {
+	if (fields.assigneeIds !== undefined) {
+		body.assignee_ids = parseIdList(fields.assigneeIds as string);
+	}
+	if (fields.reviewerIds !== undefined) {
+		body.reviewer_ids = parseIdList(fields.reviewerIds as string);
+	}
+	if (fields.labels) body.labels = fields.labels;
+	if (fields.milestoneId !== undefined) body.milestone_id = fields.milestoneId;
+	if (fields.removeSourceBranch !== undefined) {
+		body.remove_source_branch = fields.removeSourceBranch;
+	}
+	if (fields.squash !== undefined) body.squash = fields.squash;
+	if (fields.allowCollaboration !== undefined) {
+		body.allow_collaboration = fields.allowCollaboration;
+	}
+	if (fields.draft !== undefined) {
+		const title = (body.title as string).replace(draftTitlePattern, '');
+		body.title = fields.draft ? `Draft: ${title}` : title;
+	}
+	if (update) {
+		if (fields.addLabels) body.add_labels = fields.addLabels;
+		if (fields.removeLabels) body.remove_labels = fields.removeLabels;
+		if (fields.targetBranch) body.target_branch = fields.targetBranch;
+		if (fields.discussionLocked !== undefined) body.discussion_locked = fields.discussionLocked;
+	} else if (fields.targetProjectId) {
+		body.target_project_id = fields.targetProjectId;
+	}
+}
+
+/**
+ * Explanations for the `detailed_merge_status` values that prevent a merge.
+ * Statuses missing here are reported with their raw value.
+ */
+const mergeBlockers: Record<string, string> = {
+	approvals_syncing: 'Approvals are still being synchronised',
+	checking: 'GitLab is still checking whether the merge is possible',
+	ci_must_pass: 'A pipeline must succeed before merging',
+	ci_still_running: 'A pipeline is still running',
+	commits_status: 'The source branch must exist and contain commits',
+	conflict: 'The source and target branches have conflicts',
+	discussions_not_resolved: 'All discussions must be resolved',
+	draft_status: 'The merge request is a draft',
+	jira_association_missing: 'The title or description must reference a Jira issue',
+	locked_lfs_files: 'LFS files locked by other users must be unlocked',
+	locked_paths: 'Paths locked by other users must be unlocked',
+	merge_request_blocked: 'The merge request is blocked by another merge request',
+	merge_time: 'The merge request cannot be merged before its scheduled time',
+	need_rebase: 'The merge request must be rebased',
+	not_approved: 'Approval is required before merging',
+	not_open: 'The merge request must be open',
+	preparing: 'The merge request diff is still being prepared',
+	requested_changes: 'A reviewer requested changes',
+	security_policy_violations: 'Security policies must be satisfied',
+	status_checks_must_pass: 'All external status checks must pass',
+	title_regex: 'The title does not match the required pattern',
+	unchecked: 'GitLab has not checked the merge status yet',
+};
+
+/** Statuses that resolve by themselves, so the check is worth repeating later. */
+const transientMergeStatuses = ['approvals_syncing', 'checking', 'preparing', 'unchecked'];
+
+/** Statuses that do not block a merge that waits for the pipeline to succeed. */
+const pipelineMergeStatuses = ['ci_must_pass', 'ci_still_running'];
+
+/**
+ * Reads the detailed merge status of a merge request and describes whether,
+ * and why not, it can be merged with the given `mergeOptions`.
+ */
+async function checkMergeability(
+	this: IExecuteFunctions,
+	base: string,
+	iid: number,
+	options: IDataObject,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const mergeRequest = (await gitlabApiRequest.call(
+		this,
+		'GET',
+		`${base}/merge_requests/${iid}`,
+		{},
+		{ with_merge_status_recheck: true },
+		{},
+		itemIndex,
+	)) as IDataObject;
+	const status = (mergeRequest.detailed_merge_status as string) ?? 'unchecked';
+	const reasons: IDataObject[] = [];
+	const waitsForPipeline = options.autoMerge === true && pipelineMergeStatuses.includes(status);
+	if (status !== 'mergeable' && !waitsForPipeline) {
+		reasons.push({ code: status, message: mergeBlockers[status] ?? status });
+	}
+	if (options.sha && options.sha !== mergeRequest.sha) {
+		reasons.push({
+			code: 'sha_mismatch',
+			message: `The head commit is ${mergeRequest.sha}, not ${options.sha}`,
+		});
+	}
+	return {
+		iid,
+		canMerge: reasons.length === 0,
+		detailedMergeStatus: status,
+		retryable: transientMergeStatuses.includes(status),
+		reasons,
+		sha: mergeRequest.sha,
+		hasConflicts: mergeRequest.has_conflicts,
+		draft: mergeRequest.draft,
+		blockingDiscussionsResolved: mergeRequest.blocking_discussions_resolved,
+		webUrl: mergeRequest.web_url,
+	};
+}
+
+/** The latest `diff_refs` of a merge request and its parsed changes. */
+interface ReviewDiff {
+	diffRefs: DiffRefs;
+	files: DiffFile[];
+}
+
+/**
+ * Fetches the latest diff of a merge request and parses every changed file,
+ * so that positions can be computed from a path and a line number.
+ */
+async function fetchReviewDiff(
+	this: IExecuteFunctions,
+	base: string,
+	iid: number,
+	itemIndex: number,
+): Promise<ReviewDiff> {
+	const response = (await gitlabApiRequest.call(
+		this,
+		'GET',
+		`${base}/merge_requests/${iid}/changes`,
+		{},
+		{ access_raw_diffs: true },
+		{},
+		itemIndex,
+	)) as IDataObject;
+	const changes = (response.changes as IDataObject[] | undefined) ?? [];
+	return {
+		diffRefs: response.diff_refs as DiffRefs,
+		files: changes.map((change) => ({
+			oldPath: change.old_path as string,
+			newPath: change.new_path as string,
+			hunks: parseDiff((change.diff as string) ?? '', change.new_path as string),
+		})),
+	};
+}
+
+/** The position of a review comment, or why it could not be placed on the diff. */
+type CommentPlacement =
+	| { position: IDataObject }
+	| { reason: 'file_not_in_diff' | 'line_not_in_diff'; message: string };
+
+/**
+ * Places a comment on a line, or range of lines, of the parsed merge request diff.
+ */
+function placeComment(
+	review: ReviewDiff,
+	iid: number,
+	path: string,
+	side: 'old' | 'new',
+	line: number,
+	endLine?: number,
+): CommentPlacement {
+	const file = review.files.find((entry) => entry.newPath === path || entry.oldPath === path);
+	if (!file) {
+		return {
+			reason: 'file_not_in_diff',
+			message: `The file "${path}" is not changed in merge request ${iid}`,
+		};
+	}
+	const position = buildDiffPosition(file, review.diffRefs, side, line, endLine);
+	if (!position) {
+		const lines = endLine
+			? `Lines ${line}-${endLine} of "${path}" are`
+			: `Line ${line} of "${path}" is`;
+		return {
+			reason: 'line_not_in_diff',
+			message: `${lines} not part of the merge request diff (${side} side)`,
+		};
+	}
+	return { position: position as IDataObject };
+}
+
+/**
+ * Computes the position of a discussion from the `reviewFilePath`, `reviewLine`,
+ * `reviewLineSide` and `reviewEndLine` parameters.
+ */
+async function resolveFileLinePosition(
+	this: IExecuteFunctions,
+	base: string,
+	iid: number,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const path = this.getNodeParameter('reviewFilePath', itemIndex) as string;
+	requireString.call(this, path, 'reviewFilePath', itemIndex);
+	const line = this.getNodeParameter('reviewLine', itemIndex) as number;
+	requirePositive.call(this, line, 'reviewLine', itemIndex);
+	const side = this.getNodeParameter('reviewLineSide', itemIndex, 'new') as 'old' | 'new';
+	const endLine = this.getNodeParameter('reviewEndLine', itemIndex, 0) as number;
+	if (endLine && endLine < line) {
+		throw new NodeOperationError(this.getNode(), 'reviewEndLine must not be before reviewLine', {
+			itemIndex,
+		});
+	}
+
+	const review = await fetchReviewDiff.call(this, base, iid, itemIndex);
+	const placement = placeComment(review, iid, path, side, line, endLine || undefined);
+	if (!('position' in placement)) {
+		throw new NodeOperationError(this.getNode(), placement.message, { itemIndex });
+	}
+	return placement.position;
+}
+
+/**
+ * Reads the `reviewComments` parameter, accepting either an array or a JSON string,
+ * and checks that every comment has a path, a line and a body.
+ */
+function parseReviewComments(this: IExecuteFunctions, itemIndex: number): IDataObject[] {
+	const raw = this.getNodeParameter('reviewComments', itemIndex, '[]') as string | IDataObject[];
+	let comments: unknown = raw;
+	if (typeof raw === 'string') {
+		try {
+			comments = JSON.parse(raw);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'reviewComments must be valid JSON', {
+				itemIndex,
+			});
+		}
+	}
+	if (!Array.isArray(comments)) {
+		throw new NodeOperationError(this.getNode(), 'reviewComments must be a JSON array', {
+			itemIndex,
+		});
+	}
+	comments.forEach((comment: IDataObject, index) => {
+		const side = comment?.side ?? 'new';
+		if (
+			!comment?.path ||
+			!(Number(comment.line) > 0) ||
+			!comment.body ||
+			(side !== 'new' && side !== 'old')
+		) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`reviewComments[${index}] needs a path, a positive line, a body and a side of "new" or "old"`,
+				{ itemIndex },
+			);
+		}
+	});
+	return comments as IDataObject[];
+}
+
+/**
+ * Posts a list of review comments as positioned discussions, or as draft notes
+ * that are optionally published afterwards. Only the drafts created here are
+ * published, so pending drafts the user wrote before are left alone. Comments
+ * that cannot be posted are reported instead of failing the whole review.
+ */
+async function postReview(
+	this: IExecuteFunctions,
+	base: string,
+	iid: number,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const comments = parseReviewComments.call(this, itemIndex);
+	const submission = this.getNodeParameter('reviewSubmission', itemIndex, 'discussions') as string;
+	const useDrafts = submission !== 'discussions';
+	const review = await fetchReviewDiff.call(this, base, iid, itemIndex);
+
+	const results: IDataObject[] = [];
+	for (const comment of comments) {
+		const side = (comment.side as 'old' | 'new' | undefined) ?? 'new';
+		const line = Number(comment.line);
+		const endLine = comment.endLine ? Number(comment.endLine) : undefined;
+		const result: IDataObject = { path: comment.path, line, side };
+		if (endLine) result.endLine = endLine;
+		const placement = placeComment(review, iid, comment.path as string, side, line, endLine);
+		if (!('position' in placement)) {
+			results.push({ ...result, status: 'failed', ...placement });
+			continue;
+		}
+		try {
+			if (useDrafts) {
+				const draft = await gitlabApiRequest.call(
+					this,
+					'POST',
+					`${base}/merge_requests/${iid}/draft_notes`,
+					{ note: comment.body, position: placement.position },
+					{},
+					{},
+					itemIndex,
+				);
+				results.push({ ...result, status: 'drafted', draftNoteId: draft.id });
+			} else {
+				const discussion = await gitlabApiRequest.call(
+					this,
+					'POST',
+					`${base}/merge_requests/${iid}/discussions`,
+					{ body: comment.body, position: placement.position },
+					{},
+					{},
+					itemIndex,
+				);
+				results.push({ ...result, status: 'posted', discussionId: discussion.id });
+			}
+		} catch (error) {
+			results.push({
+				...result,
+				status: 'failed',
+				reason: 'request_failed',
+				message: (error as Error).message,
+			});
+		}
+	}
+
+	let published = false;
+	if (submission === 'publishDrafts') {
+		for (const result of results.filter((entry) => entry.status === 'drafted')) {
+			try {
+				await gitlabApiRequest.call(
+					this,
+					'PUT',
+					`${base}/merge_requests/${iid}/draft_notes/${result.draftNoteId}/publish`,
+					{},
+					{},
+					{},
+					itemIndex,
+				);
+				result.status = 'posted';
+				published = true;
+			} catch (error) {
+				Object.assign(result, {
+					status: 'failed',
+					reason: 'publish_failed',
+					message: (error as Error).message,
+				});
+			}
+		}
+	}
+	const succeeded = results.filter((result) => result.status !== 'failed');
+
+	return {
+		iid,
+		submission,
+		published,
+		posted: succeeded.length,
+		failed: results.length - succeeded.length,
+		comments: results,
+	};
+}
 
 export async function handleMergeRequest(
 	this: IExecuteFunctions,
@@ -37,7 +398,23 @@ export async function handleMergeRequest(
 		body.target_branch = this.getNodeParameter('target', itemIndex);
 		body.title = this.getNodeParameter('title', itemIndex);
 		addOptionalStringParam.call(this, body, 'description', 'description', itemIndex);
+		const fields = this.getNodeParameter('mergeRequestFields', itemIndex, {}) as IDataObject;
+		applyMergeRequestFields(body, fields, false);
 		endpoint = `${base}/merge_requests`;
+	} else if (operation === 'update') {
+		requestMethod = 'PUT';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}`;
+		addOptionalStringParam.call(this, body, 'title', 'title', itemIndex);
+		addOptionalStringParam.call(this, body, 'description', 'description', itemIndex);
+		const fields = this.getNodeParameter('mergeRequestFields', itemIndex, {}) as IDataObject;
+		// The draft prefix is part of the title, so the current title is needed when none is given
+		if (fields.draft !== undefined && !body.title) {
+			const current = await gitlabApiRequest.call(this, 'GET', endpoint, {}, {}, {}, itemIndex);
+			body.title = current.title;
+		}
+		applyMergeRequestFields(body, fields, true);
 	} else if (operation === 'get') {
 		requestMethod = 'GET';
 		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
@@ -61,6 +438,14 @@ export async function handleMergeRequest(
 		const newDiscussion = this.getNodeParameter('startDiscussion', itemIndex, false);
 		const note = this.getNodeParameter('body', itemIndex) as string;
 		body.body = note;
+		if (this.getNodeParameter('addSuggestion', itemIndex, false)) {
+			const suggestion = buildSuggestion(
+				this.getNodeParameter('suggestionCode', itemIndex, '') as string,
+				this.getNodeParameter('suggestionLinesAbove', itemIndex, 0) as number,
+				this.getNodeParameter('suggestionLinesBelow', itemIndex, 0) as number,
+			);
+			body.body = note ? `${note}\n\n${suggestion}` : suggestion;
+		}
 		const commitId = this.getNodeParameter('commitId', itemIndex, '') as string;
 		const createdAt = this.getNodeParameter('createdAt', itemIndex, '') as string;
 		if (commitId) body.commit_id = commitId;
@@ -106,7 +491,9 @@ export async function handleMergeRequest(
 		const hasPosition =
 			newPath !== '' && oldPath !== '' && baseSha !== '' && headSha !== '' && startSha !== '';
 
-		if (hasPosition) {
+		if (this.getNodeParameter('positionMode', itemIndex, 'manual') === 'fileLine') {
+			body.position = await resolveFileLinePosition.call(this, base, iid, itemIndex);
+		} else if (hasPosition) {
 			if (oldLine !== null && oldLine < 0) {
 				throw new NodeOperationError(
 					this.getNode(),
@@ -172,6 +559,62 @@ export async function handleMergeRequest(
 			}
 			endpoint = `${base}/merge_requests/${iid}/discussions/${discussionId}/notes`;
 		}
+	} else if (operation === 'postReview') {
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		const result = await postReview.call(this, base, iid, itemIndex);
+		return this.helpers.constructExecutionMetaData(this.helpers.returnJsonArray(result), {
+			itemData: { item: itemIndex },
+		});
+	} else if (
+		operation === 'getPipelines' ||
+		operation === 'getCommits' ||
+		operation === 'getVersions' ||
+		operation === 'getClosesIssues' ||
+		operation === 'getParticipants'
+	) {
+		requestMethod = 'GET';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		returnAll = this.getNodeParameter('returnAll', itemIndex);
+		if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		const paths: Record<string, string> = {
+			getPipelines: 'pipelines',
+			getCommits: 'commits',
+			getVersions: 'versions',
+			getClosesIssues: 'closes_issues',
+			getParticipants: 'participants',
+		};
+		endpoint = `${base}/merge_requests/${iid}/${paths[operation]}`;
+	} else if (operation === 'createPipeline') {
+		requestMethod = 'POST';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/pipelines`;
+	} else if (operation === 'getVersion') {
+		requestMethod = 'GET';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		const versionId = this.getNodeParameter('versionId', itemIndex) as number;
+		requirePositive.call(this, versionId, 'versionId', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/versions/${versionId}`;
+	} else if (operation === 'applySuggestions') {
+		requestMethod = 'PUT';
+		const ids = parseIdList(this.getNodeParameter('suggestionIds', itemIndex) as string);
+		if (ids.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'suggestionIds must not be empty', {
+				itemIndex,
+			});
+		}
+		ids.forEach((id) => requirePositive.call(this, id, 'suggestionIds', itemIndex));
+		addOptionalStringParam.call(this, body, 'suggestionCommitMessage', 'commit_message', itemIndex);
+		if (ids.length === 1) {
+			endpoint = `/suggestions/${ids[0]}/apply`;
+		} else {
+			// Applying several suggestions together creates a single commit
+			body.ids = ids;
+			endpoint = '/suggestions/batch_apply';
+		}
 	} else if (operation === 'updateNote') {
 		requestMethod = 'PUT';
 		const noteId = this.getNodeParameter('noteId', itemIndex) as number;
@@ -209,6 +652,25 @@ export async function handleMergeRequest(
 		if (accessRawDiffs) qs.access_raw_diffs = true;
 		if (unidiff) qs.unidiff = true;
 		endpoint = `${base}/merge_requests/${iid}/changes`;
+		if (this.getNodeParameter('structuredDiff', itemIndex, false)) {
+			const response = (await gitlabApiRequest.call(
+				this,
+				'GET',
+				endpoint,
+				{},
+				qs,
+				{},
+				itemIndex,
+			)) as IDataObject;
+			const changes = ((response.changes as IDataObject[] | undefined) ?? []).map((change) => ({
+				...change,
+				hunks: parseDiff((change.diff as string) ?? '', change.new_path as string),
+			}));
+			return this.helpers.constructExecutionMetaData(
+				this.helpers.returnJsonArray({ ...response, changes } as IDataObject),
+				{ itemData: { item: itemIndex } },
+			);
+		}
 	} else if (operation === 'getDiscussions') {
 		requestMethod = 'GET';
 		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
@@ -274,11 +736,36 @@ export async function handleMergeRequest(
 		requestMethod = 'PUT';
 		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
 		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		const mode = this.getNodeParameter('mergeMode', itemIndex, 'merge') as string;
+		const options = this.getNodeParameter('mergeOptions', itemIndex, {}) as IDataObject;
+		if (mode !== 'merge') {
+			const check = await checkMergeability.call(this, base, iid, options, itemIndex);
+			if (mode === 'check' || !check.canMerge) {
+				return this.helpers.constructExecutionMetaData(this.helpers.returnJsonArray(check), {
+					itemData: { item: itemIndex },
+				});
+			}
+		}
 		const message = this.getNodeParameter('mergeCommitMessage', itemIndex, '');
 		const strategy = this.getNodeParameter('mergeStrategy', itemIndex, 'merge') as string;
 		if (message) body.merge_commit_message = message;
 		if (strategy === 'squash') body.squash = true;
+		if (options.autoMerge) {
+			// Newer GitLab versions call this auto_merge, older ones only know the original name
+			body.merge_when_pipeline_succeeds = true;
+			body.auto_merge = true;
+		}
+		if (options.shouldRemoveSourceBranch !== undefined) {
+			body.should_remove_source_branch = options.shouldRemoveSourceBranch;
+		}
+		if (options.sha) body.sha = options.sha;
+		if (options.squashCommitMessage) body.squash_commit_message = options.squashCommitMessage;
 		endpoint = `${base}/merge_requests/${iid}/merge`;
+	} else if (operation === 'cancelAutoMerge') {
+		requestMethod = 'POST';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/cancel_merge_when_pipeline_succeeds`;
 	} else if (operation === 'rebase') {
 		requestMethod = 'PUT';
 		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
@@ -304,6 +791,61 @@ export async function handleMergeRequest(
 			body.remove_labels = labels;
 		}
 		endpoint = `${base}/merge_requests/${iid}`;
+	} else if (operation === 'approve' || operation === 'unapprove') {
+		requestMethod = 'POST';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		if (operation === 'approve') {
+			// Pinning the SHA makes GitLab reject the approval if new commits were pushed meanwhile
+			addOptionalStringParam.call(this, body, 'approvalSha', 'sha', itemIndex);
+		}
+		endpoint = `${base}/merge_requests/${iid}/${operation}`;
+	} else if (operation === 'getApprovalState') {
+		requestMethod = 'GET';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/approval_state`;
+	} else if (operation === 'getApprovalRules') {
+		requestMethod = 'GET';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/approval_rules`;
+	} else if (operation === 'createApprovalRule' || operation === 'updateApprovalRule') {
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		body.name = this.getNodeParameter('approvalRuleName', itemIndex);
+		requireString.call(this, body.name as string, 'approvalRuleName', itemIndex);
+		body.approvals_required = this.getNodeParameter('approvalsRequired', itemIndex, 1);
+		const options = this.getNodeParameter('approvalRuleOptions', itemIndex, {}) as IDataObject;
+		if (options.userIds !== undefined) body.user_ids = parseIdList(options.userIds as string);
+		if (options.groupIds !== undefined) body.group_ids = parseIdList(options.groupIds as string);
+		if (operation === 'createApprovalRule') {
+			requestMethod = 'POST';
+			if (options.projectRuleId) body.approval_project_rule_id = options.projectRuleId;
+			endpoint = `${base}/merge_requests/${iid}/approval_rules`;
+		} else {
+			requestMethod = 'PUT';
+			const ruleId = this.getNodeParameter('approvalRuleId', itemIndex) as number;
+			requirePositive.call(this, ruleId, 'approvalRuleId', itemIndex);
+			endpoint = `${base}/merge_requests/${iid}/approval_rules/${ruleId}`;
+		}
+	} else if (operation === 'deleteApprovalRule') {
+		requestMethod = 'DELETE';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		const ruleId = this.getNodeParameter('approvalRuleId', itemIndex) as number;
+		requirePositive.call(this, ruleId, 'approvalRuleId', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/approval_rules/${ruleId}`;
+	} else if (operation === 'getReviewers') {
+		requestMethod = 'GET';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/reviewers`;
+	} else if (operation === 'resetApprovals') {
+		requestMethod = 'PUT';
+		const iid = this.getNodeParameter('mergeRequestIid', itemIndex) as number;
+		requirePositive.call(this, iid, 'mergeRequestIid', itemIndex);
+		endpoint = `${base}/merge_requests/${iid}/reset_approvals`;
 	} else {
 		throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported.`, {
 			itemIndex,
@@ -4,15 +4,183 @@ import type {
 	INodeExecutionData,
 	IHttpRequestMethods,
 } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
+import { NodeOperationError, sleep } from 'n8n-workflow';
 import {
 	gitlabApiRequest,
 	gitlabApiRequestAllItems,
+	gitlabApiDownload,
+	gitlabTriggerRequest,
+	encodeArtifactPath,
 	buildProjectBase,
 	assertValidProjectCredentials,
 	resolveCredential,
 } from '../GenericFunctions';
-import { requirePositive } from '../validators';
+import { requirePositive, requireString } from '../validators';
+
+/** Pipeline statuses after which a pipeline no longer changes on its own. */
+const terminalPipelineStatuses = ['success', 'failed', 'canceled', 'skipped', 'manual'];
+
+/**
+ * Reads the `pipelineInputs` parameter, accepting either an object or a JSON string.
+ * Returns `undefined` when no inputs are configured.
+ */
+function parsePipelineInputs(this: IExecuteFunctions, itemIndex: number): IDataObject | undefined {
+	const raw = this.getNodeParameter('pipelineInputs', itemIndex, '') as string | IDataObject;
+	if (typeof raw !== 'string') {
+		return Object.keys(raw ?? {}).length ? raw : undefined;
+	}
+	if (raw.trim() === '') {
+		return undefined;
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), 'pipelineInputs must be valid JSON', {
+			itemIndex,
+		});
+	}
+	if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new NodeOperationError(this.getNode(), 'pipelineInputs must be a JSON object', {
+			itemIndex,
+		});
+	}
+	return Object.keys(parsed).length ? (parsed as IDataObject) : undefined;
+}
+
+/**
+ * Builds the endpoint and body used to start a pipeline, either through the
+ * regular pipeline API or the trigger API when a trigger token is configured.
+ */
+function buildCreateRequest(
+	this: IExecuteFunctions,
+	base: string,
+	itemIndex: number,
+): { endpoint: string; body: IDataObject; trigger: boolean } {
+	const body: IDataObject = { ref: this.getNodeParameter('pipelineRef', itemIndex) };
+	const useTriggerToken = this.getNodeParameter('useTriggerToken', itemIndex, false) as boolean;
+	const variables = this.getNodeParameter('pipelineVariables', itemIndex, {}) as IDataObject;
+	const entries = (variables.variable as IDataObject[] | undefined) ?? [];
+	const inputs = parsePipelineInputs.call(this, itemIndex);
+	if (inputs) body.inputs = inputs;
+	if (useTriggerToken) {
+		const token = this.getNodeParameter('triggerToken', itemIndex) as string;
+		requireString.call(this, token, 'triggerToken', itemIndex);
+		body.token = token;
+		// The trigger API only accepts plain `variables[KEY]=value` pairs
+		if (entries.some((entry) => entry.variableType === 'file')) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'File variables are not supported with a trigger token',
+				{ itemIndex },
+			);
+		}
+		if (entries.length) {
+			body.variables = Object.fromEntries(entries.map((entry) => [entry.key, entry.value]));
+		}
+		return { endpoint: `${base}/trigger/pipeline`, body, trigger: true };
+	}
+	if (entries.length) {
+		body.variables = entries.map((entry) => ({
+			key: entry.key,
+			value: entry.value,
+			variable_type: entry.variableType ?? 'env_var',
+		}));
+	}
+	return { endpoint: `${base}/pipeline`, body, trigger: false };
+}
+
+/** Starts a pipeline, sending trigger token requests without the access token. */
+async function createPipeline(
+	this: IExecuteFunctions,
+	base: string,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const { endpoint, body, trigger } = buildCreateRequest.call(this, base, itemIndex);
+	if (trigger) {
+		return await gitlabTriggerRequest.call(this, endpoint, body, itemIndex);
+	}
+	return await gitlabApiRequest.call(this, 'POST', endpoint, body, {}, {}, itemIndex);
+}
+
+/**
+ * Starts a pipeline or takes an existing one and polls it until it reaches a
+ * terminal status. Returns the final pipeline together with its jobs.
+ */
+async function waitForPipeline(
+	this: IExecuteFunctions,
+	base: string,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const source = this.getNodeParameter('waitPipelineSource', itemIndex, 'trigger') as string;
+	const interval = this.getNodeParameter('pollInterval', itemIndex, 10) as number;
+	const timeout = this.getNodeParameter('waitTimeout', itemIndex, 3600) as number;
+	const failOnNonSuccess = this.getNodeParameter('failOnNonSuccess', itemIndex, false) as boolean;
+	requirePositive.call(this, timeout, 'waitTimeout', itemIndex);
+
+	let pipeline: IDataObject;
+	if (source === 'trigger') {
+		pipeline = await createPipeline.call(this, base, itemIndex);
+	} else {
+		const id = this.getNodeParameter('pipelineId', itemIndex) as number;
+		requirePositive.call(this, id, 'pipelineId', itemIndex);
+		pipeline = await gitlabApiRequest.call(
+			this,
+			'GET',
+			`${base}/pipelines/${id}`,
+			{},
+			{},
+			{},
+			itemIndex,
+		);
+	}
+
+	const id = pipeline.id as number;
+	const deadline = Date.now() + timeout * 1000;
+	while (!terminalPipelineStatuses.includes(pipeline.status as string)) {
+		const remaining = deadline - Date.now();
+		if (remaining <= 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Pipeline ${id} did not finish within ${timeout} seconds (last status: "${pipeline.status}")`,
+				{ itemIndex },
+			);
+		}
+		// The last sleep is cut short so the status is checked once more at the deadline
+		await sleep(Math.min(interval * 1000, remaining));
+		pipeline = await gitlabApiRequest.call(
+			this,
+			'GET',
+			`${base}/pipelines/${id}`,
+			{},
+			{},
+			{},
+			itemIndex,
+		);
+	}
+
+	if (failOnNonSuccess && pipeline.status !== 'success') {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Pipeline ${id} finished with status "${pipeline.status}"`,
+			{ itemIndex },
+		);
+	}
+
+	const jobs = await gitlabApiRequestAllItems.call(
+		this,
+		'GET',
+		`${base}/pipelines/${id}/jobs`,
+		{},
+		{},
+		itemIndex,
+	);
+
+	return this.helpers.constructExecutionMetaData(
+		this.helpers.returnJsonArray({ ...pipeline, jobs } as IDataObject),
+		{ itemData: { item: itemIndex } },
+	);
+}
 
 export async function handlePipeline(
 	this: IExecuteFunctions,
@@ -31,9 +199,12 @@ export async function handlePipeline(
 	let returnAll = false;
 
 	if (operation === 'create') {
-		requestMethod = 'POST';
-		body.ref = this.getNodeParameter('pipelineRef', itemIndex);
-		endpoint = `${base}/pipeline`;
+		const pipeline = await createPipeline.call(this, base, itemIndex);
+		return this.helpers.constructExecutionMetaData(this.helpers.returnJsonArray(pipeline), {
+			itemData: { item: itemIndex },
+		});
+	} else if (operation === 'waitForCompletion') {
+		return await waitForPipeline.call(this, base, itemIndex);
 	} else if (operation === 'get') {
 		requestMethod = 'GET';
 		const id = this.getNodeParameter('pipelineId', itemIndex) as number;
@@ -62,11 +233,42 @@ export async function handlePipeline(
 		requirePositive.call(this, id, 'pipelineId', itemIndex);
 		endpoint = `${base}/pipelines/${id}`;
 	} else if (operation === 'downloadArtifacts') {
-		requestMethod = 'GET';
-		const id = this.getNodeParameter('pipelineId', itemIndex) as number;
-		requirePositive.call(this, id, 'pipelineId', itemIndex);
 		const ref = this.getNodeParameter('pipelineRef', itemIndex) as string;
-		endpoint = `${base}/pipelines/${id}/jobs/artifacts/${ref}/download`;
+		requireString.call(this, ref, 'pipelineRef', itemIndex);
+		const job = this.getNodeParameter('artifactJobName', itemIndex) as string;
+		requireString.call(this, job, 'artifactJobName', itemIndex);
+		const artifactPath = this.getNodeParameter('artifactPath', itemIndex, '') as string;
+		const binaryPropertyName = this.getNodeParameter(
+			'binaryPropertyName',
+			itemIndex,
+			'data',
+		) as string;
+		const artifactsBase = `${base}/jobs/artifacts/${encodeURIComponent(ref)}`;
+		// Without a path GitLab returns the whole archive, otherwise a single file extracted from it
+		const binaryData = artifactPath
+			? await gitlabApiDownload.call(
+					this,
+					`${artifactsBase}/raw/${encodeArtifactPath(artifactPath)}`,
+					{ job },
+					artifactPath.split('/').pop() as string,
+					itemIndex,
+				)
+			: await gitlabApiDownload.call(
+					this,
+					`${artifactsBase}/download`,
+					{ job },
+					'artifacts.zip',
+					itemIndex,
+				);
+		const json: IDataObject = { ref, job };
+		if (artifactPath) json.artifactPath = artifactPath;
+		return [
+			{
+				json,
+				binary: { [binaryPropertyName]: binaryData },
+				pairedItem: { item: itemIndex },
+			},
+		];
 	} else {
 		throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported.`, {
 			itemIndex,
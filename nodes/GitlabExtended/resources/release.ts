@@ -0,0 +1,173 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	gitlabApiRequest,
+	gitlabApiRequestAllItems,
+	addOptionalStringParam,
+} from '../GenericFunctions';
+import { requireString } from '../validators';
+import {
+	bumpSemver,
+	compareSemver,
+	detectConventionalBump,
+	formatSemver,
+	parseSemver,
+} from '../semver';
+import type { SemVer, SemVerBump } from '../semver';
+
+/**
+ * Finds the highest semantic version tag with the given prefix. Tags that are
+ * not versions are ignored.
+ */
+async function findPreviousVersion(
+	this: IExecuteFunctions,
+	base: string,
+	prefix: string,
+	itemIndex: number,
+): Promise<{ previousTag?: string; previous: SemVer }> {
+	const tags = (await gitlabApiRequestAllItems.call(
+		this,
+		'GET',
+		`${base}/repository/tags`,
+		{},
+		{},
+		itemIndex,
+	)) as IDataObject[];
+	let previousTag: string | undefined;
+	let previous: SemVer = { major: 0, minor: 0, patch: 0, prerelease: [] };
+	for (const tag of tags) {
+		const version = parseSemver(tag.name as string, prefix);
+		if (version && (!previousTag || compareSemver(version, previous) > 0)) {
+			previousTag = tag.name as string;
+			previous = version;
+		}
+	}
+	return { previousTag, previous };
+}
+
+/**
+ * Derives the bump from the conventional commits on the ref that are not
+ * reachable from the previous tag.
+ */
+async function detectBump(
+	this: IExecuteFunctions,
+	base: string,
+	ref: string,
+	previousTag: string | undefined,
+	itemIndex: number,
+): Promise<SemVerBump> {
+	const commits = (await gitlabApiRequestAllItems.call(
+		this,
+		'GET',
+		`${base}/repository/commits`,
+		{},
+		{ ref_name: previousTag ? `${previousTag}..${ref}` : ref },
+		itemIndex,
+	)) as IDataObject[];
+	const detected = detectConventionalBump(commits.map((commit) => commit.message as string));
+	if (!detected) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`No conventional commits requiring a release were found since ${previousTag ?? 'the first commit'}`,
+			{ itemIndex },
+		);
+	}
+	return detected;
+}
+
+/**
+ * Tags the next semantic version on a ref and creates a release for it. When
+ * the release cannot be created the new tag is deleted again, so the next run
+ * does not treat the unreleased tag as the previous version.
+ *
+ * @param {IExecuteFunctions} this - The execution context, providing access to workflow utilities.
+ * @param {string} base - The project API path.
+ * @param {number} itemIndex - The index of the current item being processed.
+ * @returns {Promise<INodeExecutionData[]>} The version, previous tag, bump, tag and release.
+ */
+export async function semverRelease(
+	this: IExecuteFunctions,
+	base: string,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const ref = this.getNodeParameter('releaseRef', itemIndex) as string;
+	requireString.call(this, ref, 'releaseRef', itemIndex);
+	const options = this.getNodeParameter('semverOptions', itemIndex, {}) as IDataObject;
+	const prefix = (options.tagPrefix as string | undefined) ?? 'v';
+	const assets = this.getNodeParameter('assets', itemIndex, '') as string;
+	let parsedAssets: IDataObject | undefined;
+	if (assets) {
+		try {
+			parsedAssets = JSON.parse(assets);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), "Invalid JSON in 'assets' parameter", {
+				itemIndex,
+			});
+		}
+	}
+
+	const { previousTag, previous } = await findPreviousVersion.call(this, base, prefix, itemIndex);
+	let bump = this.getNodeParameter('semverBump', itemIndex, 'auto') as SemVerBump | 'auto';
+	if (bump === 'auto') {
+		bump = await detectBump.call(this, base, ref, previousTag, itemIndex);
+	}
+
+	const version = formatSemver(
+		bumpSemver(previous, bump, (options.prereleaseId as string) || 'rc'),
+	);
+	const tagName = `${prefix}${version}`;
+	const tagBody: IDataObject = { tag_name: tagName, ref };
+	if (options.tagMessage) tagBody.message = options.tagMessage;
+	const releaseBody: IDataObject = {
+		tag_name: tagName,
+		name: (options.releaseName as string) || tagName,
+	};
+	addOptionalStringParam.call(this, releaseBody, 'releaseDescription', 'description', itemIndex);
+	if (parsedAssets) releaseBody.assets = parsedAssets;
+
+	const tag = await gitlabApiRequest.call(
+		this,
+		'POST',
+		`${base}/repository/tags`,
+		tagBody,
+		{},
+		{},
+		itemIndex,
+	);
+	let release;
+	try {
+		release = await gitlabApiRequest.call(
+			this,
+			'POST',
+			`${base}/releases`,
+			releaseBody,
+			{},
+			{},
+			itemIndex,
+		);
+	} catch (error) {
+		try {
+			await gitlabApiRequest.call(
+				this,
+				'DELETE',
+				`${base}/repository/tags/${encodeURIComponent(tagName)}`,
+				{},
+				{},
+				{},
+				itemIndex,
+			);
+		} catch (cleanupError) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Tag ${tagName} was created but its release failed and the tag could not be deleted`,
+				{ itemIndex, description: (error as Error).message },
+			);
+		}
+		throw error;
+	}
+
+	return this.helpers.constructExecutionMetaData(
+		this.helpers.returnJsonArray({ version, previousTag, bump, tag, release }),
+		{ itemData: { item: itemIndex } },
+	);
+}
@@ -0,0 +1,125 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	IHttpRequestMethods,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	gitlabApiRequest,
+	gitlabApiRequestAllItems,
+	gitlabApiDownload,
+	buildProjectBase,
+	assertValidProjectCredentials,
+	resolveCredential,
+} from '../GenericFunctions';
+import { requireString } from '../validators';
+
+/**
+ * Copies the `changelogOptions` collection onto the changelog request parameters.
+ * Branch, file and message only apply when the changelog is committed.
+ */
+function applyChangelogOptions(target: IDataObject, options: IDataObject, commit: boolean): void {
+	if (options.from) target.from = options.from;
+	if (options.to) target.to = options.to;
+	if (options.trailer) target.trailer = options.trailer;
+	if (options.configFile) target.config_file = options.configFile;
+	if (options.date) target.date = options.date;
+	if (commit) {
+		if (options.branch) target.branch = options.branch;
+		if (options.file) target.file = options.file;
+		if (options.message) target.message = options.message;
+	}
+}
+
+/**
+ * Handles repository-wide operations such as comparing refs, listing
+ * contributors, downloading archives and generating changelogs.
+ *
+ * @param {IExecuteFunctions} this - The execution context, providing access to workflow utilities.
+ * @param {number} itemIndex - The index of the current item being processed.
+ * @returns {Promise<INodeExecutionData[]>} A promise that resolves to an array of node execution data.
+ */
+export async function handleRepository(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', itemIndex);
+	const credential = await resolveCredential.call(this, itemIndex);
+	assertValidProjectCredentials.call(this, credential);
+
+	const base = buildProjectBase(credential);
+
+	let requestMethod: IHttpRequestMethods = 'GET';
+	let endpoint = '';
+	let body: IDataObject = {};
+	let qs: IDataObject = {};
+	let returnAll = false;
+
+	if (operation === 'compare') {
+		requestMethod = 'GET';
+		qs.from = this.getNodeParameter('compareFrom', itemIndex);
+		requireString.call(this, qs.from as string, 'compareFrom', itemIndex);
+		qs.to = this.getNodeParameter('compareTo', itemIndex);
+		requireString.call(this, qs.to as string, 'compareTo', itemIndex);
+		if (this.getNodeParameter('compareStraight', itemIndex, false)) qs.straight = true;
+		endpoint = `${base}/repository/compare`;
+	} else if (operation === 'getContributors') {
+		requestMethod = 'GET';
+		returnAll = this.getNodeParameter('returnAll', itemIndex);
+		if (!returnAll) qs.per_page = this.getNodeParameter('limit', itemIndex);
+		endpoint = `${base}/repository/contributors`;
+	} else if (operation === 'downloadArchive') {
+		const format = this.getNodeParameter('archiveFormat', itemIndex, 'tar.gz') as string;
+		const sha = this.getNodeParameter('archiveSha', itemIndex, '') as string;
+		const path = this.getNodeParameter('archivePath', itemIndex, '') as string;
+		const binaryPropertyName = this.getNodeParameter(
+			'binaryPropertyName',
+			itemIndex,
+			'data',
+		) as string;
+		if (sha) qs.sha = sha;
+		if (path) qs.path = path;
+		const binaryData = await gitlabApiDownload.call(
+			this,
+			`${base}/repository/archive.${format}`,
+			qs,
+			`archive.${format}`,
+			itemIndex,
+		);
+		return [
+			{
+				json: { format, ...qs },
+				binary: { [binaryPropertyName]: binaryData },
+				pairedItem: { item: itemIndex },
+			},
+		];
+	} else if (operation === 'generateChangelog') {
+		requestMethod = 'GET';
+		qs.version = this.getNodeParameter('changelogVersion', itemIndex);
+		requireString.call(this, qs.version as string, 'changelogVersion', itemIndex);
+		const options = this.getNodeParameter('changelogOptions', itemIndex, {}) as IDataObject;
+		applyChangelogOptions(qs, options, false);
+		endpoint = `${base}/repository/changelog`;
+	} else if (operation === 'commitChangelog') {
+		requestMethod = 'POST';
+		body.version = this.getNodeParameter('changelogVersion', itemIndex);
+		requireString.call(this, body.version as string, 'changelogVersion', itemIndex);
+		const options = this.getNodeParameter('changelogOptions', itemIndex, {}) as IDataObject;
+		applyChangelogOptions(body, options, true);
+		endpoint = `${base}/repository/changelog`;
+	} else {
+		throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported.`, {
+			itemIndex,
+		});
+	}
+
+	const response = returnAll
+		? await gitlabApiRequestAllItems.call(this, requestMethod, endpoint, body, qs, itemIndex)
+		: await gitlabApiRequest.call(this, requestMethod, endpoint, body, qs, {}, itemIndex);
+
+	return this.helpers.constructExecutionMetaData(
+		this.helpers.returnJsonArray(response as IDataObject),
+		{ itemData: { item: itemIndex } },
+	);
+}
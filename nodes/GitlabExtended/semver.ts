@@ -0,0 +1,120 @@
+/**
+ * A parsed semantic version. `prerelease` holds the dot-separated
+ * identifiers after the hyphen, e.g. `['rc', 1]` for `1.0.0-rc.1`.
+ */
+export interface SemVer {
+	major: number;
+	minor: number;
+	patch: number;
+	prerelease: Array<string | number>;
+}
+
+export type SemVerBump = 'major' | 'minor' | 'patch' | 'prerelease';
+
+const semverPattern =
+	/^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a version string, ignoring the given tag prefix (such as `v`).
+ * Returns `undefined` for anything that is not a valid semantic version.
+ */
+export function parseSemver(value: string, prefix = ''): SemVer | undefined {
+	if (!value.startsWith(prefix)) return undefined;
+	const match = semverPattern.exec(value.slice(prefix.length));
+	if (!match) return undefined;
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+		prerelease: match[4]
+			? match[4].split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id))
+			: [],
+	};
+}
+
+/**
+ * Format a version without a tag prefix.
+ */
+export function formatSemver(version: SemVer): string {
+	const core = `${version.major}.${version.minor}.${version.patch}`;
+	return version.prerelease.length ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+/**
+ * Compare two versions following the semver precedence rules.
+ * Returns a negative number when `a` is lower, a positive number when it is higher.
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+	const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+	if (core !== 0) return core;
+	// A version without prerelease identifiers has higher precedence
+	if (!a.prerelease.length || !b.prerelease.length) {
+		return b.prerelease.length - a.prerelease.length;
+	}
+	for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+		const left = a.prerelease[i];
+		const right = b.prerelease[i];
+		if (left === undefined) return -1;
+		if (right === undefined) return 1;
+		if (left === right) continue;
+		if (typeof left === 'number' && typeof right === 'number') return left - right;
+		// Numeric identifiers have lower precedence than alphanumeric ones
+		if (typeof left === 'number') return -1;
+		if (typeof right === 'number') return 1;
+		return left < right ? -1 : 1;
+	}
+	return 0;
+}
+
+/**
+ * Compute the next version. Bumping a prerelease to a release type finishes
+ * that prerelease, e.g. `2.0.0-rc.1` with `major` becomes `2.0.0`.
+ */
+export function bumpSemver(version: SemVer, bump: SemVerBump, prereleaseId = 'rc'): SemVer {
+	const { major, minor, patch, prerelease } = version;
+	const isPrerelease = prerelease.length > 0;
+	if (bump === 'major') {
+		const finish = isPrerelease && minor === 0 && patch === 0;
+		return { major: finish ? major : major + 1, minor: 0, patch: 0, prerelease: [] };
+	}
+	if (bump === 'minor') {
+		const finish = isPrerelease && patch === 0;
+		return { major, minor: finish ? minor : minor + 1, patch: 0, prerelease: [] };
+	}
+	if (bump === 'patch') {
+		return { major, minor, patch: isPrerelease ? patch : patch + 1, prerelease: [] };
+	}
+	if (isPrerelease && prerelease[0] === prereleaseId) {
+		const last = prerelease[prerelease.length - 1];
+		const next =
+			typeof last === 'number' ? [...prerelease.slice(0, -1), last + 1] : [...prerelease, 0];
+		return { major, minor, patch, prerelease: next };
+	}
+	return {
+		major,
+		minor,
+		patch: isPrerelease ? patch : patch + 1,
+		prerelease: [prereleaseId, 0],
+	};
+}
+
+/**
+ * Derive the release type from conventional commit messages: breaking changes
+ * bump the major version, `feat` the minor version and `fix` or `perf` the patch
+ * version. Returns `undefined` when no commit requires a release.
+ */
+export function detectConventionalBump(messages: string[]): SemVerBump | undefined {
+	let bump: SemVerBump | undefined;
+	for (const message of messages) {
+		const header = /^(\w+)(?:\([^)]*\))?(!)?:/.exec(message);
+		if (!header) continue;
+		if (header[2] || /^BREAKING[ -]CHANGE:/m.test(message)) return 'major';
+		const type = header[1].toLowerCase();
+		if (type === 'feat') {
+			bump = 'minor';
+		} else if ((type === 'fix' || type === 'perf') && bump === undefined) {
+			bump = 'patch';
+		}
+	}
+	return bump;
+}
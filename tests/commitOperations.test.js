@@ -0,0 +1,301 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtended } from '../dist/nodes/GitlabExtended/GitlabExtended.node.js';
+import createContext from './helpers/createContext.js';
+
+test('create builds the actions array from the fixed collection', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'create',
+    commitBranch: 'feature',
+    commitMessage: 'update config',
+    commitActions: {
+      action: [
+        { action: 'create', filePath: 'a.txt', content: 'a', encoding: 'text' },
+        { action: 'update', filePath: 'b.bin', content: 'Yg==', encoding: 'base64' },
+        { action: 'delete', filePath: 'c.txt', content: '' },
+        { action: 'move', filePath: 'new/d.txt', previousPath: 'd.txt', content: '' },
+        { action: 'chmod', filePath: 'run.sh', executeFilemode: true },
+      ],
+    },
+    commitOptions: {
+      startBranch: 'main',
+      authorName: 'Bot',
+      authorEmail: 'bot@example.com',
+      force: true,
+    },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/commits'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    branch: 'feature',
+    commit_message: 'update config',
+    actions: [
+      { action: 'create', file_path: 'a.txt', content: 'a', encoding: 'text' },
+      { action: 'update', file_path: 'b.bin', content: 'Yg==', encoding: 'base64' },
+      { action: 'delete', file_path: 'c.txt' },
+      { action: 'move', file_path: 'new/d.txt', previous_path: 'd.txt' },
+      { action: 'chmod', file_path: 'run.sh', execute_filemode: true },
+    ],
+    start_branch: 'main',
+    author_name: 'Bot',
+    author_email: 'bot@example.com',
+    force: true,
+  });
+});
+
+test('create combines the actions of all input items into one commit', async () => {
+  const node = new GitlabExtended();
+  const params = {
+    resource: 'commit',
+    operation: 'create',
+    commitBranch: 'main',
+    commitMessage: 'generate configs',
+    commitActionsSource: 'items',
+  };
+  const ctx = createContext(params);
+  const files = ['one.yaml', 'two.yaml', 'three.yaml'];
+  ctx.getInputData = () => files.map((path) => ({ json: { path } }));
+  ctx.getNodeParameter = (name, index, fallback) => {
+    if (name === 'commitActions') {
+      return { action: [{ action: 'create', filePath: files[index], content: `# ${index}` }] };
+    }
+    return Object.prototype.hasOwnProperty.call(params, name) ? params[name] : fallback;
+  };
+  let requests = 0;
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    requests++;
+    ctx.calls.options = options;
+    return { id: 'abc' };
+  };
+  ctx.helpers.constructExecutionMetaData = (data, options) =>
+    data.map((item) => ({ ...item, pairedItem: options.itemData }));
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(requests, 1);
+  assert.deepStrictEqual(
+    ctx.calls.options.body.actions.map((action) => action.file_path),
+    files
+  );
+  assert.strictEqual(result[0].length, 1);
+  assert.deepStrictEqual(result[0][0].pairedItem, [{ item: 0 }, { item: 1 }, { item: 2 }]);
+});
+
+test('create from items is attempted once when the combined commit fails', async () => {
+  const node = new GitlabExtended();
+  const params = {
+    resource: 'commit',
+    operation: 'create',
+    commitBranch: 'main',
+    commitMessage: 'generate configs',
+    commitActionsSource: 'items',
+    commitActions: { action: [{ action: 'create', filePath: 'a.yaml', content: 'a' }] },
+  };
+  const ctx = createContext(params);
+  ctx.getInputData = () => [{ json: {} }, { json: {} }, { json: {} }];
+  ctx.continueOnFail = () => true;
+  let requests = 0;
+  ctx.helpers.requestWithAuthentication = async () => {
+    requests++;
+    const err = new Error('Request failed with status code 400');
+    err.statusCode = 400;
+    err.response = { status: 400, data: { message: 'A file with this name already exists' } };
+    throw err;
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(requests, 1);
+  assert.strictEqual(result[0].length, 1);
+  assert.deepStrictEqual(result[0][0].pairedItem, [{ item: 0 }, { item: 1 }, { item: 2 }]);
+});
+
+test('create requires a previous path for move actions', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'create',
+    commitBranch: 'main',
+    commitMessage: 'move',
+    commitActions: { action: [{ action: 'move', filePath: 'b.txt', previousPath: '' }] },
+  });
+  await assert.rejects(node.execute.call(ctx), /previousPath must not be empty/);
+});
+
+test('create requires at least one action', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'create',
+    commitBranch: 'main',
+    commitMessage: 'empty',
+  });
+  await assert.rejects(node.execute.call(ctx), /At least one commit action is required/);
+});
+
+test('getAll passes filters as query parameters', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'getAll',
+    returnAll: false,
+    limit: 10,
+    commitFilters: {
+      refName: 'main',
+      path: 'src',
+      author: 'jane',
+      since: '2024-01-01T00:00:00Z',
+      until: '2024-02-01T00:00:00Z',
+    },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'GET');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/commits'
+  );
+  assert.deepStrictEqual(ctx.calls.options.qs, {
+    per_page: 10,
+    ref_name: 'main',
+    path: 'src',
+    author: 'jane',
+    since: '2024-01-01T00:00:00Z',
+    until: '2024-02-01T00:00:00Z',
+  });
+});
+
+for (const [operation, suffix] of [
+  ['get', ''],
+  ['getDiff', '/diff'],
+  ['getStatuses', '/statuses'],
+  ['getRefs', '/refs'],
+]) {
+  test(`${operation} builds correct endpoint`, async () => {
+    const node = new GitlabExtended();
+    const ctx = createContext({
+      resource: 'commit',
+      operation,
+      commitSha: 'abc123',
+      returnAll: false,
+      limit: 5,
+    });
+    await node.execute.call(ctx);
+    assert.strictEqual(ctx.calls.options.method, 'GET');
+    assert.strictEqual(
+      ctx.calls.options.uri,
+      `https://gitlab.example.com/api/v4/projects/1/repository/commits/abc123${suffix}`
+    );
+  });
+}
+
+test('getRefs sends the ref type', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'getRefs',
+    commitSha: 'abc123',
+    refType: 'tag',
+  });
+  await node.execute.call(ctx);
+  assert.deepStrictEqual(ctx.calls.options.qs, { type: 'tag' });
+});
+
+test('cherryPick sends branch, dry run and message', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'cherryPick',
+    commitSha: 'abc123',
+    commitBranch: 'release/1.0',
+    commitChangeOptions: { dryRun: true, message: 'backport fix' },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/commits/abc123/cherry_pick'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    branch: 'release/1.0',
+    dry_run: true,
+    message: 'backport fix',
+  });
+});
+
+test('revert builds correct endpoint and body', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'revert',
+    commitSha: 'abc123',
+    commitBranch: 'main',
+    commitChangeOptions: { message: 'ignored for revert' },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/commits/abc123/revert'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { branch: 'main' });
+});
+
+test('createComment posts a line comment', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'createComment',
+    commitSha: 'abc123',
+    commitNote: 'Looks good',
+    commitCommentOptions: { path: 'src/index.ts', line: 4, lineType: 'new' },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/commits/abc123/comments'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    note: 'Looks good',
+    path: 'src/index.ts',
+    line: 4,
+    line_type: 'new',
+  });
+});
+
+test('setStatus posts to the statuses endpoint', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'commit',
+    operation: 'setStatus',
+    commitSha: 'abc123',
+    statusState: 'failed',
+    statusOptions: {
+      name: 'n8n/security-scan',
+      ref: 'main',
+      targetUrl: 'https://ci.example.com/1',
+      description: '2 findings',
+      coverage: 81.5,
+    },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/statuses/abc123'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    state: 'failed',
+    name: 'n8n/security-scan',
+    ref: 'main',
+    target_url: 'https://ci.example.com/1',
+    description: '2 findings',
+    coverage: 81.5,
+  });
+});
+
+test('commit operations require a SHA', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({ resource: 'commit', operation: 'get', commitSha: '' });
+  await assert.rejects(node.execute.call(ctx), /commitSha must not be empty/);
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtended } from '../dist/nodes/GitlabExtended/GitlabExtended.node.js';
+import createContext from './helpers/createContext.js';
+
+function createFailingContext(params, { continueOnFail = false } = {}) {
+	const ctx = createContext(params);
+	let call = 0;
+	ctx.getInputData = () => [{ json: {} }, { json: {} }, { json: {} }];
+	ctx.continueOnFail = () => continueOnFail;
+	ctx.helpers.requestWithAuthentication = async () => {
+		call++;
+		if (call === 2) {
+			const err = new Error('Request failed with status code 404');
+			err.statusCode = 404;
+			err.response = { status: 404, data: { message: '404 Issue Not Found' } };
+			throw err;
+		}
+		return { iid: call };
+	};
+	return ctx;
+}
+
+test('execute stops on the first failure by default', async () => {
+	const node = new GitlabExtended();
+	const ctx = createFailingContext({ resource: 'issue', operation: 'get', issueIid: 1 });
+	await assert.rejects(() => node.execute.call(ctx));
+});
+
+test('continueOnFail emits error item and keeps processing', async () => {
+	const node = new GitlabExtended();
+	const ctx = createFailingContext(
+		{ resource: 'issue', operation: 'get', issueIid: 1 },
+		{ continueOnFail: true },
+	);
+	const result = await node.execute.call(ctx);
+	assert.strictEqual(result.length, 1);
+	assert.strictEqual(result[0].length, 3);
+	assert.deepStrictEqual(result[0][0].json, { iid: 1 });
+	assert.deepStrictEqual(result[0][2].json, { iid: 3 });
+	const errorItem = result[0][1];
+	assert.strictEqual(errorItem.json.statusCode, 404);
+	assert.strictEqual(errorItem.json.gitlabMessage, '404 Issue Not Found');
+	assert.strictEqual(errorItem.json.itemIndex, 1);
+	assert.ok(errorItem.json.error);
+	assert.deepStrictEqual(errorItem.pairedItem, { item: 1 });
+});
+
+test('errorOutput routes failures to a second output', async () => {
+	const node = new GitlabExtended();
+	const ctx = createFailingContext({
+		resource: 'mergeRequest',
+		operation: 'get',
+		mergeRequestIid: 1,
+		errorOutput: true,
+	});
+	const result = await node.execute.call(ctx);
+	assert.strictEqual(result.length, 2);
+	assert.strictEqual(result[0].length, 2);
+	assert.strictEqual(result[1].length, 1);
+	assert.strictEqual(result[1][0].json.itemIndex, 1);
+	assert.strictEqual(result[1][0].json.statusCode, 404);
+});
+
+test('continueOnFail reports validation errors without status code', async () => {
+	const node = new GitlabExtended();
+	const ctx = createFailingContext(
+		{ resource: 'pipeline', operation: 'get', pipelineId: 0 },
+		{ continueOnFail: true },
+	);
+	const result = await node.execute.call(ctx);
+	assert.strictEqual(result[0].length, 3);
+	assert.match(result[0][0].json.error, /pipelineId must be a positive number/);
+	assert.strictEqual(result[0][0].json.statusCode, null);
+	assert.strictEqual(result[0][0].json.gitlabMessage, null);
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import test from 'node:test';
+import {
+  buildDiffPosition,
+  buildLineCode,
+  buildSuggestion,
+  parseDiff,
+} from '../dist/nodes/GitlabExtended/diff.js';
+
+const sha1 = (value) => createHash('sha1').update(value).digest('hex');
+
+test('buildLineCode joins the path hash and both line counters', () => {
+  assert.strictEqual(buildLineCode('src/app.ts', 4, 5), `${sha1('src/app.ts')}_4_5`);
+});
+
+test('parseDiff numbers context, removed and added lines', () => {
+  const diff = [
+    '@@ -1,3 +1,4 @@ function main()',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '+const c = 4;',
+    ' run(a, b);',
+    '\\ No newline at end of file',
+    '',
+  ].join('\n');
+  const [hunk, ...rest] = parseDiff(diff, 'src/app.ts');
+  assert.strictEqual(rest.length, 0);
+  assert.strictEqual(hunk.header, '@@ -1,3 +1,4 @@ function main()');
+  assert.deepStrictEqual(
+    [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines],
+    [1, 3, 1, 4],
+  );
+  const hash = sha1('src/app.ts');
+  assert.deepStrictEqual(hunk.lines, [
+    { type: 'context', oldLine: 1, newLine: 1, content: 'const a = 1;', lineCode: `${hash}_1_1` },
+    { type: 'removed', oldLine: 2, newLine: null, content: 'const b = 2;', lineCode: `${hash}_2_2` },
+    { type: 'added', oldLine: null, newLine: 2, content: 'const b = 3;', lineCode: `${hash}_3_2` },
+    { type: 'added', oldLine: null, newLine: 3, content: 'const c = 4;', lineCode: `${hash}_3_3` },
+    { type: 'context', oldLine: 3, newLine: 4, content: 'run(a, b);', lineCode: `${hash}_3_4` },
+  ]);
+});
+
+test('parseDiff handles several hunks and omitted line counts', () => {
+  const diff = '@@ -1 +1 @@\n-a\n+b\n@@ -10,2 +10,2 @@\n x\n-y\n+z\n';
+  const hunks = parseDiff(diff, 'f.txt');
+  assert.strictEqual(hunks.length, 2);
+  assert.deepStrictEqual([hunks[0].oldLines, hunks[0].newLines], [1, 1]);
+  assert.deepStrictEqual(
+    hunks[1].lines.map((line) => [line.type, line.oldLine, line.newLine]),
+    [
+      ['context', 10, 10],
+      ['removed', 11, null],
+      ['added', null, 11],
+    ],
+  );
+});
+
+test('parseDiff returns no hunks for an empty diff', () => {
+  assert.deepStrictEqual(parseDiff('', 'f.txt'), []);
+});
+
+const reviewDiff = '@@ -1,3 +1,4 @@\n a\n-b\n+B\n+C\n d\n';
+const reviewFile = { oldPath: 'x.txt', newPath: 'x.txt', hunks: parseDiff(reviewDiff, 'x.txt') };
+const diffRefs = { base_sha: 'base', head_sha: 'head', start_sha: 'start' };
+
+test('buildDiffPosition places single-line comments on either side', () => {
+  assert.deepStrictEqual(buildDiffPosition(reviewFile, diffRefs, 'new', 3), {
+    position_type: 'text',
+    base_sha: 'base',
+    head_sha: 'head',
+    start_sha: 'start',
+    old_path: 'x.txt',
+    new_path: 'x.txt',
+    new_line: 3,
+  });
+  const removed = buildDiffPosition(reviewFile, diffRefs, 'old', 2);
+  assert.strictEqual(removed.old_line, 2);
+  assert.strictEqual(removed.new_line, undefined);
+  const context = buildDiffPosition(reviewFile, diffRefs, 'new', 4);
+  assert.deepStrictEqual([context.old_line, context.new_line], [3, 4]);
+});
+
+test('buildDiffPosition anchors ranges to their last line', () => {
+  const hash = sha1('x.txt');
+  const position = buildDiffPosition(reviewFile, diffRefs, 'new', 1, 3);
+  assert.strictEqual(position.new_line, 3);
+  assert.deepStrictEqual(position.line_range, {
+    start: { line_code: `${hash}_1_1`, type: 'old', old_line: 1, new_line: 1 },
+    end: { line_code: `${hash}_3_3`, type: 'new', new_line: 3 },
+  });
+});
+
+test('buildDiffPosition marks context lines of a range as old', () => {
+  const hash = sha1('x.txt');
+  const position = buildDiffPosition(reviewFile, diffRefs, 'old', 1, 2);
+  assert.strictEqual(position.old_line, 2);
+  assert.deepStrictEqual(position.line_range, {
+    start: { line_code: `${hash}_1_1`, type: 'old', old_line: 1, new_line: 1 },
+    end: { line_code: `${hash}_2_2`, type: 'old', old_line: 2 },
+  });
+});
+
+test('buildDiffPosition returns undefined for lines outside the diff', () => {
+  assert.strictEqual(buildDiffPosition(reviewFile, diffRefs, 'new', 40), undefined);
+  assert.strictEqual(buildDiffPosition(reviewFile, diffRefs, 'new', 1, 40), undefined);
+});
+
+test('buildSuggestion adds the line offsets only when needed', () => {
+  assert.strictEqual(buildSuggestion('const a = 1;'), '```suggestion\nconst a = 1;\n```');
+  assert.strictEqual(buildSuggestion('a\nb', 2, 1), '```suggestion:-2+1\na\nb\n```');
+  assert.strictEqual(buildSuggestion('```js\nx\n```'), '````suggestion\n```js\nx\n```\n````');
+});
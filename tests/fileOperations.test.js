@@ -69,3 +69,131 @@ test('delete builds correct endpoint and body', async () => {
     commit_message: 'remove file',
   });
 });
+
+test('create uploads a binary property as base64', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'file',
+    operation: 'create',
+    path: 'assets/logo.png',
+    fileBranch: 'main',
+    commitMessage: 'add logo',
+    fileBinaryData: true,
+    binaryPropertyName: 'image',
+  });
+  ctx.helpers.assertBinaryData = (index, property) => {
+    assert.strictEqual(property, 'image');
+    return { mimeType: 'image/png' };
+  };
+  ctx.helpers.getBinaryDataBuffer = async () => Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/files/assets%2Flogo.png',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    branch: 'main',
+    commit_message: 'add logo',
+    content: 'iVBORw==',
+    encoding: 'base64',
+  });
+});
+
+function mockFile(ctx, content) {
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return {
+      file_name: 'config.json',
+      file_path: 'config/config.json',
+      encoding: 'base64',
+      content: Buffer.from(content).toString('base64'),
+    };
+  };
+}
+
+test('get decodes content as text', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'file',
+    operation: 'get',
+    path: 'config/config.json',
+    fileRef: 'main',
+    fileDecode: 'text',
+  });
+  mockFile(ctx, 'héllo');
+  const result = await node.execute.call(ctx);
+  assert.deepStrictEqual(result[0][0].json, {
+    file_name: 'config.json',
+    file_path: 'config/config.json',
+    encoding: 'text',
+    content: 'héllo',
+  });
+});
+
+test('get decodes content as JSON', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'file',
+    operation: 'get',
+    path: 'config/config.json',
+    fileRef: 'main',
+    fileDecode: 'json',
+  });
+  mockFile(ctx, '{"debug":true}');
+  const result = await node.execute.call(ctx);
+  assert.deepStrictEqual(result[0][0].json.content, { debug: true });
+});
+
+test('get rejects invalid JSON content', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'file',
+    operation: 'get',
+    path: 'config/config.json',
+    fileRef: 'main',
+    fileDecode: 'json',
+  });
+  mockFile(ctx, 'not json');
+  await assert.rejects(node.execute.call(ctx), /is not valid JSON/);
+});
+
+test('get decodes content into binary data', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'file',
+    operation: 'get',
+    path: 'config/config.json',
+    fileRef: 'main',
+    fileDecode: 'binary',
+  });
+  mockFile(ctx, '{}');
+  const result = await node.execute.call(ctx);
+  const item = result[0][0];
+  assert.strictEqual(item.json.content, undefined);
+  assert.strictEqual(item.binary.data.fileName, 'config.json');
+  assert.strictEqual(Buffer.from(item.binary.data.data, 'base64').toString(), '{}');
+});
+
+test('getRaw downloads the raw file as binary data', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'file',
+    operation: 'getRaw',
+    path: 'docs/guide.pdf',
+    fileRef: 'v1.0',
+  });
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return { body: Buffer.from('%PDF'), headers: { 'content-type': 'application/pdf' } };
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/files/docs%2Fguide.pdf/raw',
+  );
+  assert.deepStrictEqual(ctx.calls.options.qs, { ref: 'v1.0' });
+  const item = result[0][0];
+  assert.deepStrictEqual(item.json, { file_path: 'docs/guide.pdf', ref: 'v1.0' });
+  assert.strictEqual(item.binary.data.fileName, 'guide.pdf');
+  assert.strictEqual(item.binary.data.mimeType, 'application/pdf');
+});
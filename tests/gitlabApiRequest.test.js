@@ -4,6 +4,7 @@ import {
 	gitlabApiRequest,
 	gitlabApiRequestAllItems,
 	getMergeRequestDiscussion,
+	getRetryDelay,
 } from '../dist/nodes/GitlabExtended/GenericFunctions.js';
 import { NodeApiError } from 'n8n-workflow/dist/errors/index.js';
 import { GitlabExtended } from '../dist/nodes/GitlabExtended/GitlabExtended.node.js';
@@ -232,3 +233,204 @@ test('gitlabApiRequest uses custom credentials when selected', async () => {
 	await gitlabApiRequest.call(ctx, 'GET', '/projects', {}, undefined, {}, 0);
 	assert.strictEqual(ctx.calls.options.uri, 'https://custom.example.com/api/v4/projects');
 });
+
+function createRetryContext(failures, retryOptions = { baseDelay: 0 }) {
+	const calls = [];
+	return {
+		calls,
+		getNodeParameter(name, _i, fallback) {
+			if (name === 'authentication') return 'credential';
+			if (name === 'retryOptions') return retryOptions;
+			return fallback;
+		},
+		async getCredentials() {
+			return { server: 'https://gitlab.example.com', accessToken: 't' };
+		},
+		helpers: {
+			async requestWithAuthentication() {
+				calls.push(1);
+				const failure = failures.shift();
+				if (failure) throw failure;
+				return { ok: true };
+			},
+		},
+		getNode() {
+			return {};
+		},
+	};
+}
+
+function httpError(statusCode, headers = {}) {
+	const err = new Error(`Request failed with status code ${statusCode}`);
+	err.statusCode = statusCode;
+	err.response = { status: statusCode, headers };
+	return err;
+}
+
+test('gitlabApiRequest retries 429 responses honoring Retry-After', async () => {
+	const ctx = createRetryContext([httpError(429, { 'retry-after': '0' })]);
+	const result = await gitlabApiRequest.call(ctx, 'GET', '/foo', {}, undefined);
+	assert.deepStrictEqual(result, { ok: true });
+	assert.strictEqual(ctx.calls.length, 2);
+});
+
+test('gitlabApiRequest gives up after maxAttempts on 5xx responses', async () => {
+	const ctx = createRetryContext([httpError(503), httpError(502), httpError(500)], {
+		maxAttempts: 2,
+		baseDelay: 0,
+	});
+	await assert.rejects(
+		() => gitlabApiRequest.call(ctx, 'GET', '/foo', {}, undefined),
+		(err) => err instanceof NodeApiError,
+	);
+	assert.strictEqual(ctx.calls.length, 2);
+});
+
+test('gitlabApiRequest does not retry client errors', async () => {
+	const ctx = createRetryContext([httpError(404)]);
+	await assert.rejects(() => gitlabApiRequest.call(ctx, 'GET', '/foo', {}, undefined));
+	assert.strictEqual(ctx.calls.length, 1);
+});
+
+test('getRetryDelay uses RateLimit-Reset and caps at maxDelay', () => {
+	const reset = String(Math.floor(Date.now() / 1000) + 120);
+	const error = httpError(429, { 'ratelimit-reset': reset });
+	assert.strictEqual(getRetryDelay(error, 1, { maxDelay: 5000 }), 5000);
+});
+
+test('getRetryDelay applies exponential backoff with jitter', () => {
+	const error = httpError(500);
+	for (let i = 0; i < 20; i++) {
+		const delay = getRetryDelay(error, 3, { baseDelay: 100 });
+		assert(delay >= 200 && delay <= 400, `unexpected delay ${delay}`);
+	}
+});
+
+function createPaginationContext(responses, paginationOptions) {
+	const calls = [];
+	return {
+		calls,
+		getNodeParameter(name, _i, fallback) {
+			if (name === 'authentication') return 'credential';
+			if (name === 'paginationOptions') return paginationOptions;
+			return fallback;
+		},
+		async getCredentials() {
+			return { server: 'https://gitlab.example.com', accessToken: 't' };
+		},
+		helpers: {
+			async requestWithAuthentication(name, options) {
+				calls.push({ options: JSON.parse(JSON.stringify(options)) });
+				return responses.shift();
+			},
+		},
+		getNode() {
+			return {};
+		},
+	};
+}
+
+test('gitlabApiRequestAllItems follows Link header with keyset pagination', async () => {
+	const next =
+		'https://gitlab.example.com/api/v4/projects?id_after=2&order_by=id&pagination=keyset&per_page=100&sort=asc';
+	const responses = [
+		{ body: [{ id: 1 }, { id: 2 }], headers: { link: `<${next}>; rel="next"` } },
+		{ body: [{ id: 3 }], headers: {} },
+	];
+	const ctx = createPaginationContext(responses, { keyset: true });
+	const result = await gitlabApiRequestAllItems.call(ctx, 'GET', '/projects', {}, {});
+	assert.deepStrictEqual(result, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+	assert.strictEqual(ctx.calls.length, 2);
+	assert.strictEqual(ctx.calls[0].options.qs.pagination, 'keyset');
+	assert.strictEqual(ctx.calls[0].options.qs.order_by, 'id');
+	assert.strictEqual(ctx.calls[0].options.qs.page, undefined);
+	assert.strictEqual(ctx.calls[1].options.uri, next);
+	assert.strictEqual(ctx.calls[1].options.qs, undefined);
+});
+
+test('gitlabApiRequestAllItems keeps repeated query keys from the Link header', async () => {
+	const next =
+		'https://gitlab.example.com/api/v4/projects/1/jobs?cursor=abc&pagination=keyset&scope%5B%5D=failed&scope%5B%5D=success';
+	const responses = [
+		{ body: [{ id: 1 }], headers: { link: `<${next}>; rel="next"` } },
+		{ body: [{ id: 2 }], headers: {} },
+	];
+	const ctx = createPaginationContext(responses, { keyset: true });
+	const result = await gitlabApiRequestAllItems.call(ctx, 'GET', '/projects/1/jobs', {}, {});
+	assert.deepStrictEqual(result, [{ id: 1 }, { id: 2 }]);
+	const url = new URL(ctx.calls[1].options.uri);
+	assert.deepStrictEqual(url.searchParams.getAll('scope[]'), ['failed', 'success']);
+	assert.strictEqual(ctx.calls[1].options.qs, undefined);
+});
+
+test('gitlabApiRequestAllItems stops at maxItems', async () => {
+	const responses = [
+		{ body: [{ a: 1 }, { a: 2 }], headers: { 'x-next-page': '2' } },
+		{ body: [{ a: 3 }, { a: 4 }], headers: { 'x-next-page': '3' } },
+	];
+	const ctx = createPaginationContext(responses, { maxItems: 3 });
+	const result = await gitlabApiRequestAllItems.call(ctx, 'GET', '/foo', {}, {});
+	assert.deepStrictEqual(result, [{ a: 1 }, { a: 2 }, { a: 3 }]);
+	assert.strictEqual(ctx.calls.length, 2);
+	assert.strictEqual(ctx.calls[0].options.qs.per_page, 3);
+});
+
+test('gitlabApiRequestAllItems stops at maxPages', async () => {
+	const responses = [
+		{ body: [{ a: 1 }], headers: { 'x-next-page': '2' } },
+		{ body: [{ a: 2 }], headers: { 'x-next-page': '3' } },
+	];
+	const ctx = createPaginationContext(responses, { maxPages: 1 });
+	const result = await gitlabApiRequestAllItems.call(ctx, 'GET', '/foo', {}, {});
+	assert.deepStrictEqual(result, [{ a: 1 }]);
+	assert.strictEqual(ctx.calls.length, 1);
+});
+
+test('gitlabApiRequest routes through requestOAuth2 when OAuth2 is selected', async () => {
+	const calls = {};
+	const ctx = {
+		getNodeParameter(name, _i, fallback) {
+			if (name === 'authentication') return 'oAuth2';
+			return fallback;
+		},
+		async getCredentials(name) {
+			calls.credentials = name;
+			return { server: 'https://gitlab.example.com/', projectId: 3 };
+		},
+		helpers: {
+			async requestOAuth2(name, options) {
+				calls.name = name;
+				calls.options = options;
+				return { ok: true };
+			},
+		},
+		getNode() {
+			return {};
+		},
+	};
+
+	const result = await gitlabApiRequest.call(ctx, 'GET', '/projects/3', {}, undefined);
+	assert.deepStrictEqual(result, { ok: true });
+	assert.strictEqual(calls.credentials, 'gitlabExtendedOAuth2Api');
+	assert.strictEqual(calls.name, 'gitlabExtendedOAuth2Api');
+	assert.strictEqual(calls.options.uri, 'https://gitlab.example.com/api/v4/projects/3');
+});
+
+test('gitlabApiRequest retries 429 responses for writes', async () => {
+	const ctx = createRetryContext([httpError(429, { 'retry-after': '0' })]);
+	await gitlabApiRequest.call(ctx, 'POST', '/foo', {}, undefined);
+	assert.strictEqual(ctx.calls.length, 2);
+});
+
+test('gitlabApiRequest does not retry writes after 5xx responses by default', async () => {
+	const ctx = createRetryContext([httpError(502)]);
+	await assert.rejects(() => gitlabApiRequest.call(ctx, 'POST', '/foo', {}, undefined));
+	assert.strictEqual(ctx.calls.length, 1);
+});
+
+test('gitlabApiRequest retries writes after 5xx responses when retryWrites is set', async () => {
+	const ctx = createRetryContext([httpError(504)], { baseDelay: 0, retryWrites: true });
+	const result = await gitlabApiRequest.call(ctx, 'PUT', '/foo', {}, undefined);
+	assert.deepStrictEqual(result, { ok: true });
+	assert.strictEqual(ctx.calls.length, 2);
+});
@@ -0,0 +1,16 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtendedOAuth2Api } from '../dist/credentials/GitlabExtendedOAuth2Api.credentials.js';
+
+test('Gitlab Extended OAuth2 credentials extend oAuth2Api with server based URLs', () => {
+	const cred = new GitlabExtendedOAuth2Api();
+	assert.strictEqual(cred.name, 'gitlabExtendedOAuth2Api');
+	assert.deepStrictEqual(cred.extends, ['oAuth2Api']);
+	const props = Object.fromEntries(cred.properties.map((p) => [p.name, p]));
+	assert.strictEqual(props.grantType.default, 'authorizationCode');
+	assert.strictEqual(props.server.default, 'https://gitlab.com');
+	assert.match(props.authUrl.default, /\/oauth\/authorize/);
+	assert.match(props.accessTokenUrl.default, /\/oauth\/token/);
+	assert.strictEqual(props.scope.default, 'api');
+	assert.ok(props.projectId);
+});
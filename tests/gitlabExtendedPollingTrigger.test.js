@@ -0,0 +1,146 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtendedPollingTrigger } from '../dist/nodes/GitlabExtended/GitlabExtendedPollingTrigger.node.js';
+
+function createPollContext(params, staticData, responses, mode = 'trigger') {
+	const calls = [];
+	return {
+		calls,
+		getMode() {
+			return mode;
+		},
+		getNodeParameter(name, fallback) {
+			return Object.prototype.hasOwnProperty.call(params, name) ? params[name] : fallback;
+		},
+		getWorkflowStaticData() {
+			return staticData;
+		},
+		async getCredentials() {
+			return { server: 'https://gitlab.example.com', accessToken: 't', projectId: 1 };
+		},
+		helpers: {
+			async requestWithAuthentication(name, options) {
+				calls.push(JSON.parse(JSON.stringify(options)));
+				return responses.shift();
+			},
+			returnJsonArray(data) {
+				return data.map((json) => ({ json }));
+			},
+		},
+		getNode() {
+			return {};
+		},
+	};
+}
+
+test('first poll stores the newest updated_at from GitLab without emitting', async () => {
+	const node = new GitlabExtendedPollingTrigger();
+	const staticData = {};
+	const ctx = createPollContext({ resource: 'mergeRequest' }, staticData, [
+		[{ id: 40, iid: 4, updated_at: '2024-03-01T10:00:00.000Z' }],
+	]);
+	const result = await node.poll.call(ctx);
+	assert.strictEqual(result, null);
+	assert.strictEqual(ctx.calls.length, 1);
+	assert.strictEqual(ctx.calls[0].qs.order_by, 'updated_at');
+	assert.strictEqual(ctx.calls[0].qs.sort, 'desc');
+	assert.strictEqual(ctx.calls[0].qs.per_page, 1);
+	assert.strictEqual(staticData.lastUpdatedAt, '2024-03-01T10:00:00.000Z');
+	assert.deepStrictEqual(staticData.seenIds, [40]);
+});
+
+test('poll emits every entry when the project was empty on the first poll', async () => {
+	const node = new GitlabExtendedPollingTrigger();
+	const staticData = {};
+	const responses = [
+		[],
+		{ body: [{ iid: 1, updated_at: '2024-03-02T00:00:00.000Z' }], headers: { 'x-next-page': '' } },
+	];
+	const ctx = createPollContext({ resource: 'issue' }, staticData, responses);
+	assert.strictEqual(await node.poll.call(ctx), null);
+	assert.strictEqual(staticData.lastUpdatedAt, null);
+	const result = await node.poll.call(ctx);
+	assert.deepStrictEqual(
+		result[0].map((item) => item.json.iid),
+		[1],
+	);
+	assert.strictEqual(ctx.calls[1].qs.updated_after, undefined);
+	assert.strictEqual(staticData.lastUpdatedAt, '2024-03-02T00:00:00.000Z');
+});
+
+test('poll emits only entries changed after the mark and advances it', async () => {
+	const node = new GitlabExtendedPollingTrigger();
+	const staticData = { lastUpdatedAt: '2024-01-01T00:00:00.000Z', seenIds: [11] };
+	const responses = [
+		{
+			body: [
+				{ id: 11, iid: 1, updated_at: '2024-01-01T00:00:00.000Z' },
+				{ id: 12, iid: 2, updated_at: '2024-01-02T00:00:00.000Z' },
+				{ id: 13, iid: 3, updated_at: '2024-01-03T00:00:00.000Z' },
+			],
+			headers: { 'x-next-page': '' },
+		},
+	];
+	const ctx = createPollContext({ resource: 'issue' }, staticData, responses);
+	const result = await node.poll.call(ctx);
+	assert.deepStrictEqual(
+		result[0].map((item) => item.json.iid),
+		[2, 3],
+	);
+	assert.strictEqual(ctx.calls[0].uri, 'https://gitlab.example.com/api/v4/projects/1/issues');
+	assert.strictEqual(ctx.calls[0].qs.updated_after, '2024-01-01T00:00:00.000Z');
+	assert.strictEqual(ctx.calls[0].qs.order_by, 'updated_at');
+	assert.strictEqual(staticData.lastUpdatedAt, '2024-01-03T00:00:00.000Z');
+	assert.deepStrictEqual(staticData.seenIds, [13]);
+});
+
+test('poll emits unseen entries that share the timestamp of the mark', async () => {
+	const node = new GitlabExtendedPollingTrigger();
+	const staticData = { lastUpdatedAt: '2024-01-01T00:00:00.000Z', seenIds: [11] };
+	const responses = [
+		{
+			body: [
+				{ id: 11, iid: 1, updated_at: '2024-01-01T00:00:00.000Z' },
+				{ id: 12, iid: 2, updated_at: '2024-01-01T00:00:00.000Z' },
+			],
+			headers: { 'x-next-page': '' },
+		},
+		{
+			body: [
+				{ id: 11, iid: 1, updated_at: '2024-01-01T00:00:00.000Z' },
+				{ id: 12, iid: 2, updated_at: '2024-01-01T00:00:00.000Z' },
+			],
+			headers: { 'x-next-page': '' },
+		},
+	];
+	const ctx = createPollContext({ resource: 'issue' }, staticData, responses);
+	const result = await node.poll.call(ctx);
+	assert.deepStrictEqual(
+		result[0].map((item) => item.json.iid),
+		[2],
+	);
+	assert.strictEqual(staticData.lastUpdatedAt, '2024-01-01T00:00:00.000Z');
+	assert.deepStrictEqual(staticData.seenIds, [11, 12]);
+	assert.strictEqual(await node.poll.call(ctx), null);
+});
+
+test('poll returns null when nothing changed', async () => {
+	const node = new GitlabExtendedPollingTrigger();
+	const staticData = { lastUpdatedAt: '2024-01-01T00:00:00.000Z' };
+	const responses = [{ body: [], headers: { 'x-next-page': '' } }];
+	const ctx = createPollContext({ resource: 'pipeline' }, staticData, responses);
+	assert.strictEqual(await node.poll.call(ctx), null);
+	assert.strictEqual(ctx.calls[0].uri, 'https://gitlab.example.com/api/v4/projects/1/pipelines');
+	assert.strictEqual(staticData.lastUpdatedAt, '2024-01-01T00:00:00.000Z');
+});
+
+test('manual poll returns the latest entry without touching the mark', async () => {
+	const node = new GitlabExtendedPollingTrigger();
+	const staticData = {};
+	const responses = [[{ iid: 9, updated_at: '2024-01-05T00:00:00.000Z' }]];
+	const ctx = createPollContext({ resource: 'mergeRequest' }, staticData, responses, 'manual');
+	const result = await node.poll.call(ctx);
+	assert.deepStrictEqual(result, [[{ json: { iid: 9, updated_at: '2024-01-05T00:00:00.000Z' } }]]);
+	assert.strictEqual(ctx.calls[0].qs.per_page, 1);
+	assert.deepStrictEqual(staticData, {});
+});
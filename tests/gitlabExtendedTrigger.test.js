@@ -0,0 +1,145 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtendedTrigger } from '../dist/nodes/GitlabExtended/GitlabExtendedTrigger.node.js';
+
+function createHookContext(params, staticData = {}) {
+	const calls = [];
+	return {
+		calls,
+		staticData,
+		getNodeParameter(name, fallback) {
+			return Object.prototype.hasOwnProperty.call(params, name) ? params[name] : fallback;
+		},
+		getWorkflowStaticData() {
+			return staticData;
+		},
+		getNodeWebhookUrl() {
+			return 'https://n8n.example.com/webhook/abc';
+		},
+		async getCredentials() {
+			return { server: 'https://gitlab.example.com', accessToken: 't', projectId: 1 };
+		},
+		helpers: {
+			async requestWithAuthentication(name, options) {
+				calls.push(options);
+				return { id: 42 };
+			},
+		},
+		getNode() {
+			return {};
+		},
+	};
+}
+
+function createWebhookContext(headers, body, staticData) {
+	const response = {};
+	return {
+		response,
+		getWorkflowStaticData() {
+			return staticData;
+		},
+		getHeaderData() {
+			return headers;
+		},
+		getBodyData() {
+			return body;
+		},
+		getResponseObject() {
+			return {
+				status(code) {
+					response.status = code;
+					return this;
+				},
+				json(data) {
+					response.body = data;
+				},
+			};
+		},
+		helpers: {
+			returnJsonArray(data) {
+				return [{ json: data }];
+			},
+		},
+	};
+}
+
+test('create registers a project hook with selected events', async () => {
+	const node = new GitlabExtendedTrigger();
+	const ctx = createHookContext({ events: ['merge_requests', 'pipeline'] });
+	const created = await node.webhookMethods.default.create.call(ctx);
+	assert.strictEqual(created, true);
+	const options = ctx.calls[0];
+	assert.strictEqual(options.method, 'POST');
+	assert.strictEqual(options.uri, 'https://gitlab.example.com/api/v4/projects/1/hooks');
+	assert.strictEqual(options.body.url, 'https://n8n.example.com/webhook/abc');
+	assert.strictEqual(options.body.merge_requests_events, true);
+	assert.strictEqual(options.body.pipeline_events, true);
+	assert.strictEqual(options.body.push_events, false);
+	assert.strictEqual(options.body.releases_events, false);
+	assert.strictEqual(ctx.staticData.webhookId, 42);
+	assert.strictEqual(ctx.staticData.webhookSecret, options.body.token);
+});
+
+test('checkExists returns false when no hook was registered', async () => {
+	const node = new GitlabExtendedTrigger();
+	const ctx = createHookContext({ events: ['push'] });
+	assert.strictEqual(await node.webhookMethods.default.checkExists.call(ctx), false);
+	assert.strictEqual(ctx.calls.length, 0);
+});
+
+test('checkExists clears stale hook on 404', async () => {
+	const node = new GitlabExtendedTrigger();
+	const staticData = { webhookId: 5, webhookSecret: 's' };
+	const ctx = createHookContext({ events: ['push'] }, staticData);
+	ctx.helpers.requestWithAuthentication = async () => {
+		const err = new Error('Not found');
+		err.statusCode = 404;
+		throw err;
+	};
+	assert.strictEqual(await node.webhookMethods.default.checkExists.call(ctx), false);
+	assert.deepStrictEqual(staticData, {});
+});
+
+test('delete removes the project hook', async () => {
+	const node = new GitlabExtendedTrigger();
+	const staticData = { webhookId: 7, webhookSecret: 's' };
+	const ctx = createHookContext({ events: ['push'] }, staticData);
+	assert.strictEqual(await node.webhookMethods.default.delete.call(ctx), true);
+	assert.strictEqual(ctx.calls[0].method, 'DELETE');
+	assert.strictEqual(ctx.calls[0].uri, 'https://gitlab.example.com/api/v4/projects/1/hooks/7');
+	assert.deepStrictEqual(staticData, {});
+});
+
+test('webhook emits payload when token matches', async () => {
+	const node = new GitlabExtendedTrigger();
+	const payload = { object_kind: 'push', ref: 'refs/heads/main' };
+	const ctx = createWebhookContext({ 'x-gitlab-token': 'secret' }, payload, {
+		webhookSecret: 'secret',
+	});
+	const result = await node.webhook.call(ctx);
+	assert.deepStrictEqual(result.workflowData, [[{ json: payload }]]);
+});
+
+test('webhook rejects requests with an invalid token', async () => {
+	const node = new GitlabExtendedTrigger();
+	const ctx = createWebhookContext({ 'x-gitlab-token': 'wrong' }, {}, { webhookSecret: 'secret' });
+	const result = await node.webhook.call(ctx);
+	assert.deepStrictEqual(result, { noWebhookResponse: true });
+	assert.strictEqual(ctx.response.status, 403);
+});
+
+test('webhook rejects requests when no secret is stored', async () => {
+	const node = new GitlabExtendedTrigger();
+	const ctx = createWebhookContext({ 'x-gitlab-token': 'anything' }, {}, {});
+	const result = await node.webhook.call(ctx);
+	assert.deepStrictEqual(result, { noWebhookResponse: true });
+	assert.strictEqual(ctx.response.status, 403);
+});
+
+test('webhook rejects requests without a token header', async () => {
+	const node = new GitlabExtendedTrigger();
+	const ctx = createWebhookContext({}, {}, { webhookSecret: 'secret' });
+	const result = await node.webhook.call(ctx);
+	assert.deepStrictEqual(result, { noWebhookResponse: true });
+	assert.strictEqual(ctx.response.status, 403);
+});
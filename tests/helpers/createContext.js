@@ -5,6 +5,9 @@ export default function createContext(params) {
 		getInputData() {
 			return [{ json: {} }];
 		},
+		continueOnFail() {
+			return false;
+		},
 		getNodeParameter(name, _index, fallback) {
 			return Object.prototype.hasOwnProperty.call(params, name) ? params[name] : fallback;
 		},
@@ -26,6 +29,9 @@ export default function createContext(params) {
 			returnJsonArray(data) {
 				return [{ json: data }];
 			},
+			async prepareBinaryData(buffer, fileName, mimeType) {
+				return { data: Buffer.from(buffer).toString('base64'), fileName, mimeType };
+			},
 		},
 		getNode() {
 			return { parameters: params };
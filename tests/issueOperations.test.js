@@ -87,3 +87,273 @@ test('get throws on invalid issueIid', async () => {
   const ctx = createContext({ resource: 'issue', operation: 'get', issueIid: 0 });
   await assert.rejects(() => node.execute.call(ctx), /issueIid must be a positive number/);
 });
+
+test('create sends additional issue fields', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'create',
+    title: 't',
+    issueFields: {
+      assigneeIds: '4, 8',
+      milestoneId: 3,
+      dueDate: '2024-05-01T00:00:00.000Z',
+      weight: 2,
+      confidential: true,
+      issueType: 'incident',
+      epicId: 9,
+      addLabels: 'ignored',
+    },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    title: 't',
+    assignee_ids: [4, 8],
+    milestone_id: 3,
+    due_date: '2024-05-01',
+    weight: 2,
+    confidential: true,
+    issue_type: 'incident',
+    epic_id: 9,
+  });
+});
+
+test('update adds and removes labels', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'update',
+    issueIid: 12,
+    title: 'x',
+    issueFields: { addLabels: 'ready', removeLabels: 'triage', assigneeIds: '' },
+  });
+  await node.execute.call(ctx);
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    title: 'x',
+    assignee_ids: [],
+    add_labels: 'ready',
+    remove_labels: 'triage',
+  });
+});
+
+test('getAll applies issue filters', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'getAll',
+    returnAll: false,
+    limit: 5,
+    issueFilters: {
+      state: 'closed',
+      labels: 'bug',
+      search: 'crash',
+      assigneeUsername: 'alice',
+      authorUsername: 'bob',
+      milestone: 'v1',
+      createdAfter: '2024-01-01T00:00:00Z',
+      updatedBefore: '2024-02-01T00:00:00Z',
+      orderBy: 'priority',
+      sort: 'asc',
+      scope: 'all',
+    },
+  });
+  await node.execute.call(ctx);
+  assert.deepStrictEqual(ctx.calls.options.qs, {
+    per_page: 5,
+    state: 'closed',
+    labels: 'bug',
+    search: 'crash',
+    assignee_username: 'alice',
+    author_username: 'bob',
+    milestone: 'v1',
+    created_after: '2024-01-01T00:00:00Z',
+    updated_before: '2024-02-01T00:00:00Z',
+    order_by: 'priority',
+    sort: 'asc',
+    scope: 'all',
+  });
+});
+
+test('createNote posts to the issue notes endpoint', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'createNote',
+    issueIid: 7,
+    body: 'Investigating',
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/notes',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { body: 'Investigating' });
+});
+
+test('createNote throws on empty body', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({ resource: 'issue', operation: 'createNote', issueIid: 7, body: '' });
+  await assert.rejects(() => node.execute.call(ctx), /body must not be empty/);
+});
+
+test('updateNote and deleteNote target a single note', async () => {
+  const node = new GitlabExtended();
+  let ctx = createContext({
+    resource: 'issue',
+    operation: 'updateNote',
+    issueIid: 7,
+    noteId: 30,
+    body: 'Fixed',
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'PUT');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/notes/30',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { body: 'Fixed' });
+
+  ctx = createContext({ resource: 'issue', operation: 'deleteNote', issueIid: 7, noteId: 30 });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'DELETE');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/notes/30',
+  );
+});
+
+test('getNotes lists notes with limit', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'getNotes',
+    issueIid: 7,
+    returnAll: false,
+    limit: 3,
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'GET');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/notes',
+  );
+  assert.strictEqual(ctx.calls.options.qs.per_page, 3);
+});
+
+test('createLink links to an issue in another project', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'createLink',
+    issueIid: 7,
+    targetProjectId: 42,
+    targetIssueIid: 3,
+    issueLinkType: 'is_blocked_by',
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/links',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    target_project_id: 42,
+    target_issue_iid: 3,
+    link_type: 'is_blocked_by',
+  });
+});
+
+test('getLinks and deleteLink use the links endpoint', async () => {
+  const node = new GitlabExtended();
+  let ctx = createContext({ resource: 'issue', operation: 'getLinks', issueIid: 7 });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'GET');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/links',
+  );
+
+  ctx = createContext({ resource: 'issue', operation: 'deleteLink', issueIid: 7, issueLinkId: 15 });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'DELETE');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/links/15',
+  );
+});
+
+test('move and clone send the target project', async () => {
+  const node = new GitlabExtended();
+  let ctx = createContext({ resource: 'issue', operation: 'move', issueIid: 7, targetProjectId: 9 });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/move',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { to_project_id: 9 });
+
+  ctx = createContext({
+    resource: 'issue',
+    operation: 'clone',
+    issueIid: 7,
+    targetProjectId: 9,
+    cloneWithNotes: true,
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/clone',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { to_project_id: 9, with_notes: true });
+});
+
+test('addSpentTime sends duration and summary', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'addSpentTime',
+    issueIid: 7,
+    timeDuration: '1h30m',
+    timeSummary: 'Triage',
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/issues/7/add_spent_time',
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { duration: '1h30m', summary: 'Triage' });
+});
+
+test('time tracking operations use their endpoints', async () => {
+  const node = new GitlabExtended();
+  const cases = [
+    ['setTimeEstimate', 'POST', 'time_estimate'],
+    ['resetTimeEstimate', 'POST', 'reset_time_estimate'],
+    ['resetSpentTime', 'POST', 'reset_spent_time'],
+    ['getTimeStats', 'GET', 'time_stats'],
+  ];
+  for (const [operation, method, path] of cases) {
+    const ctx = createContext({ resource: 'issue', operation, issueIid: 7, timeDuration: '2d' });
+    await node.execute.call(ctx);
+    assert.strictEqual(ctx.calls.options.method, method);
+    assert.strictEqual(
+      ctx.calls.options.uri,
+      `https://gitlab.example.com/api/v4/projects/1/issues/7/${path}`,
+    );
+  }
+});
+
+test('setTimeEstimate throws on empty duration', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'issue',
+    operation: 'setTimeEstimate',
+    issueIid: 7,
+    timeDuration: '',
+  });
+  await assert.rejects(() => node.execute.call(ctx), /timeDuration must not be empty/);
+});
@@ -0,0 +1,115 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtended } from '../dist/nodes/GitlabExtended/GitlabExtended.node.js';
+import createContext from './helpers/createContext.js';
+
+test('get builds correct endpoint', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({ resource: 'job', operation: 'get', jobId: 12 });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'GET');
+  assert.strictEqual(ctx.calls.options.uri, 'https://gitlab.example.com/api/v4/projects/1/jobs/12');
+});
+
+test('getAll adds a scope[] parameter per selected scope', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'job',
+    operation: 'getAll',
+    returnAll: false,
+    limit: 5,
+    jobScope: ['failed', 'success'],
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/jobs?scope[]=failed&scope[]=success'
+  );
+  assert.strictEqual(ctx.calls.options.qs.per_page, 5);
+});
+
+test('getAll without scope lists every job', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({ resource: 'job', operation: 'getAll', returnAll: false, limit: 5 });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.uri, 'https://gitlab.example.com/api/v4/projects/1/jobs');
+});
+
+test('getLog requests the trace as text', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({ resource: 'job', operation: 'getLog', jobId: 3 });
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return 'line 1\nline 2';
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/jobs/3/trace'
+  );
+  assert.strictEqual(ctx.calls.options.json, false);
+  assert.deepStrictEqual(result[0][0].json, { id: 3, log: 'line 1\nline 2' });
+});
+
+test('play sends job variables', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'job',
+    operation: 'play',
+    jobId: 8,
+    jobVariables: { variable: [{ key: 'DEPLOY_ENV', value: 'staging' }] },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/jobs/8/play'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    job_variables_attributes: [{ key: 'DEPLOY_ENV', value: 'staging' }],
+  });
+});
+
+for (const operation of ['retry', 'cancel', 'erase']) {
+  test(`${operation} builds correct endpoint`, async () => {
+    const node = new GitlabExtended();
+    const ctx = createContext({ resource: 'job', operation, jobId: 4 });
+    await node.execute.call(ctx);
+    assert.strictEqual(ctx.calls.options.method, 'POST');
+    assert.strictEqual(
+      ctx.calls.options.uri,
+      `https://gitlab.example.com/api/v4/projects/1/jobs/4/${operation}`
+    );
+  });
+}
+
+test('downloadArtifact returns the file as binary data', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'job',
+    operation: 'downloadArtifact',
+    jobId: 5,
+    artifactPath: 'coverage/report.xml',
+  });
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return { body: Buffer.from('<xml/>'), headers: { 'content-type': 'application/xml' } };
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/jobs/5/artifacts/coverage/report.xml'
+  );
+  assert.strictEqual(ctx.calls.options.encoding, null);
+  const item = result[0][0];
+  assert.deepStrictEqual(item.json, { id: 5, artifactPath: 'coverage/report.xml' });
+  assert.strictEqual(item.binary.data.fileName, 'report.xml');
+  assert.strictEqual(item.binary.data.mimeType, 'application/xml');
+  assert.strictEqual(Buffer.from(item.binary.data.data, 'base64').toString(), '<xml/>');
+});
+
+test('rejects non-positive job IDs', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({ resource: 'job', operation: 'get', jobId: 0 });
+  await assert.rejects(node.execute.call(ctx));
+});
@@ -2,9 +2,13 @@ import assert from 'node:assert';
 import test from 'node:test';
 import { ESLint } from 'eslint';
 
-const files = ['nodes/GitlabExtended/GitlabExtended.node.ts'];
+const files = [
+  'nodes/GitlabExtended/GitlabExtended.node.ts',
+  'nodes/GitlabExtended/GitlabExtendedTrigger.node.ts',
+  'nodes/GitlabExtended/GitlabExtendedPollingTrigger.node.ts',
+];
 
-test('GitlabExtended.node.ts should pass ESLint', async () => {
+test('node files should pass ESLint', async () => {
   const eslint = new ESLint();
   const results = await eslint.lintFiles(files);
   const errorCount = results.reduce((sum, r) => sum + r.errorCount, 0);
@@ -632,3 +632,740 @@ test('get throws on invalid mergeRequestIid', async () => {
 	});
 	await assert.rejects(() => node.execute.call(ctx), /mergeRequestIid must be a positive number/);
 });
+
+test('create sends additional merge request fields', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'create',
+		source: 'deps/bump',
+		target: 'main',
+		title: 'Bump lodash',
+		mergeRequestFields: {
+			assigneeIds: '2',
+			reviewerIds: '5, 6',
+			labels: 'dependencies',
+			milestoneId: 4,
+			removeSourceBranch: true,
+			squash: true,
+			draft: true,
+			targetProjectId: 99,
+			allowCollaboration: true,
+			addLabels: 'ignored',
+		},
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'POST');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, {
+		source_branch: 'deps/bump',
+		target_branch: 'main',
+		title: 'Draft: Bump lodash',
+		assignee_ids: [2],
+		reviewer_ids: [5, 6],
+		labels: 'dependencies',
+		milestone_id: 4,
+		remove_source_branch: true,
+		squash: true,
+		allow_collaboration: true,
+		target_project_id: 99,
+	});
+});
+
+test('update builds correct endpoint and body', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'update',
+		mergeRequestIid: 8,
+		title: 'Draft: Bump lodash',
+		description: 'Ready now',
+		mergeRequestFields: {
+			draft: false,
+			addLabels: 'ready',
+			removeLabels: 'wip',
+			targetBranch: 'release',
+			discussionLocked: true,
+			targetProjectId: 99,
+		},
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'PUT');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/8',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, {
+		title: 'Bump lodash',
+		description: 'Ready now',
+		add_labels: 'ready',
+		remove_labels: 'wip',
+		target_branch: 'release',
+		discussion_locked: true,
+	});
+});
+
+test('update leaves the title out when it is empty', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'update',
+		mergeRequestIid: 8,
+		title: '',
+		mergeRequestFields: { addLabels: 'ready' },
+	});
+	await node.execute.call(ctx);
+	assert.deepStrictEqual(ctx.calls.options.body, { add_labels: 'ready' });
+});
+
+test('update applies the draft prefix to the current title when none is given', async () => {
+	const node = new GitlabExtended();
+	const ctx = createMergeContext(
+		{
+			resource: 'mergeRequest',
+			operation: 'update',
+			mergeRequestIid: 8,
+			mergeRequestFields: { draft: true },
+		},
+		{ iid: 8, title: 'Bump lodash' },
+	);
+	await node.execute.call(ctx);
+	const [get, put] = ctx.calls.requests;
+	assert.strictEqual(get.method, 'GET');
+	assert.strictEqual(get.uri, 'https://gitlab.example.com/api/v4/projects/1/merge_requests/8');
+	assert.strictEqual(put.method, 'PUT');
+	assert.deepStrictEqual(put.body, { title: 'Draft: Bump lodash' });
+});
+
+test('update throws on invalid mergeRequestIid', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'update',
+		mergeRequestIid: 0,
+		title: 'x',
+	});
+	await assert.rejects(() => node.execute.call(ctx), /mergeRequestIid must be a positive number/);
+});
+
+test('approve pins the head SHA', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'approve',
+		mergeRequestIid: 4,
+		approvalSha: 'abc123',
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'POST');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/4/approve',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, { sha: 'abc123' });
+});
+
+test('unapprove posts without a body', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'unapprove',
+		mergeRequestIid: 4,
+		approvalSha: 'ignored',
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'POST');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/4/unapprove',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, {});
+});
+
+test('approval and reviewer reads use their endpoints', async () => {
+	const node = new GitlabExtended();
+	const cases = [
+		['getApprovalState', 'GET', 'approval_state'],
+		['getApprovalRules', 'GET', 'approval_rules'],
+		['getReviewers', 'GET', 'reviewers'],
+		['resetApprovals', 'PUT', 'reset_approvals'],
+	];
+	for (const [operation, method, path] of cases) {
+		const ctx = createContext({ resource: 'mergeRequest', operation, mergeRequestIid: 4 });
+		await node.execute.call(ctx);
+		assert.strictEqual(ctx.calls.options.method, method);
+		assert.strictEqual(
+			ctx.calls.options.uri,
+			`https://gitlab.example.com/api/v4/projects/1/merge_requests/4/${path}`,
+		);
+	}
+});
+
+test('createApprovalRule sends approvers', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'createApprovalRule',
+		mergeRequestIid: 4,
+		approvalRuleName: 'Security',
+		approvalsRequired: 2,
+		approvalRuleOptions: { userIds: '3,5', groupIds: '9', projectRuleId: 11 },
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'POST');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/4/approval_rules',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, {
+		name: 'Security',
+		approvals_required: 2,
+		user_ids: [3, 5],
+		group_ids: [9],
+		approval_project_rule_id: 11,
+	});
+});
+
+test('updateApprovalRule and deleteApprovalRule target a single rule', async () => {
+	const node = new GitlabExtended();
+	let ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'updateApprovalRule',
+		mergeRequestIid: 4,
+		approvalRuleId: 21,
+		approvalRuleName: 'Security',
+		approvalsRequired: 1,
+		approvalRuleOptions: { projectRuleId: 11 },
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'PUT');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/4/approval_rules/21',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, { name: 'Security', approvals_required: 1 });
+
+	ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'deleteApprovalRule',
+		mergeRequestIid: 4,
+		approvalRuleId: 21,
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'DELETE');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/4/approval_rules/21',
+	);
+});
+
+test('createApprovalRule throws on empty name', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'createApprovalRule',
+		mergeRequestIid: 4,
+		approvalRuleName: '',
+	});
+	await assert.rejects(() => node.execute.call(ctx), /approvalRuleName must not be empty/);
+});
+
+function createMergeContext(params, mergeRequest) {
+	const ctx = createContext(params);
+	ctx.calls.requests = [];
+	ctx.helpers.requestWithAuthentication = async (name, options) => {
+		ctx.calls.requests.push(options);
+		ctx.calls.options = options;
+		return options.method === 'GET' ? mergeRequest : { state: 'merged' };
+	};
+	return ctx;
+}
+
+test('merge sends auto-merge and guard options', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'merge',
+		mergeRequestIid: 10,
+		mergeOptions: {
+			autoMerge: true,
+			shouldRemoveSourceBranch: true,
+			sha: 'abc',
+			squashCommitMessage: 'Bump lodash',
+		},
+	});
+	await node.execute.call(ctx);
+	assert.deepStrictEqual(ctx.calls.options.body, {
+		merge_when_pipeline_succeeds: true,
+		auto_merge: true,
+		should_remove_source_branch: true,
+		sha: 'abc',
+		squash_commit_message: 'Bump lodash',
+	});
+});
+
+test('cancelAutoMerge builds correct endpoint', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'cancelAutoMerge',
+		mergeRequestIid: 10,
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'POST');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/10/cancel_merge_when_pipeline_succeeds',
+	);
+});
+
+test('merge check mode reports why a merge request cannot be merged', async () => {
+	const node = new GitlabExtended();
+	const ctx = createMergeContext(
+		{
+			resource: 'mergeRequest',
+			operation: 'merge',
+			mergeRequestIid: 10,
+			mergeMode: 'check',
+			mergeOptions: { sha: 'expected' },
+		},
+		{ detailed_merge_status: 'not_approved', sha: 'actual', has_conflicts: false, draft: false },
+	);
+	const [result] = await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.requests.length, 1);
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/10',
+	);
+	assert.strictEqual(ctx.calls.options.qs.with_merge_status_recheck, true);
+	assert.strictEqual(result[0].json.canMerge, false);
+	assert.strictEqual(result[0].json.detailedMergeStatus, 'not_approved');
+	assert.strictEqual(result[0].json.retryable, false);
+	assert.deepStrictEqual(
+		result[0].json.reasons.map((reason) => reason.code),
+		['not_approved', 'sha_mismatch'],
+	);
+});
+
+test('merge check then merge only merges mergeable requests', async () => {
+	const node = new GitlabExtended();
+	const params = {
+		resource: 'mergeRequest',
+		operation: 'merge',
+		mergeRequestIid: 10,
+		mergeMode: 'checkAndMerge',
+	};
+	let ctx = createMergeContext(params, { detailed_merge_status: 'checking', sha: 'a' });
+	let [result] = await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.requests.length, 1);
+	assert.strictEqual(result[0].json.canMerge, false);
+	assert.strictEqual(result[0].json.retryable, true);
+
+	ctx = createMergeContext(params, { detailed_merge_status: 'mergeable', sha: 'a' });
+	[result] = await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.requests.length, 2);
+	assert.strictEqual(ctx.calls.options.method, 'PUT');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/10/merge',
+	);
+	assert.deepStrictEqual(result[0].json, { state: 'merged' });
+});
+
+test('merge check accepts a running pipeline when auto-merging', async () => {
+	const node = new GitlabExtended();
+	const ctx = createMergeContext(
+		{
+			resource: 'mergeRequest',
+			operation: 'merge',
+			mergeRequestIid: 10,
+			mergeMode: 'checkAndMerge',
+			mergeOptions: { autoMerge: true },
+		},
+		{ detailed_merge_status: 'ci_still_running', sha: 'a' },
+	);
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.requests.length, 2);
+	assert.strictEqual(ctx.calls.options.body.merge_when_pipeline_succeeds, true);
+});
+
+test('getChanges parses diffs into hunks when structuredDiff is set', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'getChanges',
+		mergeRequestIid: 3,
+		structuredDiff: true,
+	});
+	const diffRefs = { base_sha: 'b', head_sha: 'h', start_sha: 's' };
+	ctx.helpers.requestWithAuthentication = async (name, options) => {
+		ctx.calls.options = options;
+		return {
+			iid: 3,
+			diff_refs: diffRefs,
+			changes: [{ old_path: 'a.txt', new_path: 'a.txt', diff: '@@ -1 +1 @@\n-x\n+y\n' }],
+		};
+	};
+	const [result] = await node.execute.call(ctx);
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/3/changes',
+	);
+	assert.deepStrictEqual(result[0].json.diff_refs, diffRefs);
+	const [hunk] = result[0].json.changes[0].hunks;
+	assert.deepStrictEqual(
+		hunk.lines.map((line) => [line.type, line.oldLine, line.newLine]),
+		[
+			['removed', 1, null],
+			['added', null, 1],
+		],
+	);
+	assert.match(hunk.lines[1].lineCode, /^[0-9a-f]{40}_2_1$/);
+});
+
+function createReviewContext(params) {
+	const ctx = createContext(params);
+	ctx.calls.requests = [];
+	ctx.helpers.requestWithAuthentication = async (name, options) => {
+		ctx.calls.requests.push(options);
+		ctx.calls.options = options;
+		if (options.uri.endsWith('/changes')) {
+			return {
+				diff_refs: { base_sha: 'base', head_sha: 'head', start_sha: 'start' },
+				changes: [
+					{ old_path: 'old.txt', new_path: 'src/app.ts', diff: '@@ -1,2 +1,3 @@\n a\n+b\n+c\n d\n' },
+				],
+			};
+		}
+		return { id: 'discussion' };
+	};
+	return ctx;
+}
+
+test('postDiscussionNote computes the position from a file and line', async () => {
+	const node = new GitlabExtended();
+	const ctx = createReviewContext({
+		resource: 'mergeRequest',
+		operation: 'postDiscussionNote',
+		mergeRequestIid: 6,
+		startDiscussion: true,
+		body: 'Please rename',
+		positionMode: 'fileLine',
+		reviewFilePath: 'src/app.ts',
+		reviewLine: 2,
+		reviewEndLine: 3,
+		reviewLineSide: 'new',
+	});
+	await node.execute.call(ctx);
+	const [changes, post] = ctx.calls.requests;
+	assert.strictEqual(
+		changes.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/6/changes',
+	);
+	assert.strictEqual(changes.qs.access_raw_diffs, true);
+	assert.strictEqual(
+		post.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/6/discussions',
+	);
+	const { position } = post.body;
+	assert.deepStrictEqual(
+		[position.base_sha, position.head_sha, position.start_sha],
+		['base', 'head', 'start'],
+	);
+	assert.deepStrictEqual([position.old_path, position.new_path], ['old.txt', 'src/app.ts']);
+	assert.strictEqual(position.new_line, 3);
+	assert.strictEqual(position.old_line, undefined);
+	assert.match(position.line_range.start.line_code, /^[0-9a-f]{40}_2_2$/);
+	assert.match(position.line_range.end.line_code, /^[0-9a-f]{40}_2_3$/);
+	assert.strictEqual(position.line_range.start.type, 'new');
+	assert.strictEqual(position.line_range.end.type, 'new');
+});
+
+test('postDiscussionNote anchors a range starting on a context line to the old side', async () => {
+	const node = new GitlabExtended();
+	const ctx = createReviewContext({
+		resource: 'mergeRequest',
+		operation: 'postDiscussionNote',
+		mergeRequestIid: 6,
+		startDiscussion: true,
+		body: 'Please rename',
+		positionMode: 'fileLine',
+		reviewFilePath: 'src/app.ts',
+		reviewLine: 1,
+		reviewEndLine: 2,
+		reviewLineSide: 'new',
+	});
+	await node.execute.call(ctx);
+	const { line_range: range } = ctx.calls.requests[1].body.position;
+	assert.strictEqual(range.start.type, 'old');
+	assert.deepStrictEqual([range.start.old_line, range.start.new_line], [1, 1]);
+	assert.strictEqual(range.end.type, 'new');
+});
+
+test('postDiscussionNote rejects lines that are not in the diff', async () => {
+	const node = new GitlabExtended();
+	const params = {
+		resource: 'mergeRequest',
+		operation: 'postDiscussionNote',
+		mergeRequestIid: 6,
+		startDiscussion: true,
+		body: 'x',
+		positionMode: 'fileLine',
+		reviewFilePath: 'src/app.ts',
+		reviewLine: 30,
+	};
+	await assert.rejects(
+		() => node.execute.call(createReviewContext(params)),
+		/Line 30 of "src\/app.ts" is not part of the merge request diff \(new side\)/,
+	);
+	await assert.rejects(
+		() => node.execute.call(createReviewContext({ ...params, reviewFilePath: 'README.md' })),
+		/The file "README.md" is not changed in merge request 6/,
+	);
+});
+
+test('postReview posts each comment and reports lines outside the diff', async () => {
+	const node = new GitlabExtended();
+	const ctx = createReviewContext({
+		resource: 'mergeRequest',
+		operation: 'postReview',
+		mergeRequestIid: 6,
+		reviewComments: JSON.stringify([
+			{ path: 'src/app.ts', line: 2, body: 'One' },
+			{ path: 'src/app.ts', line: 2, endLine: 3, body: 'Range', side: 'new' },
+			{ path: 'src/app.ts', line: 40, body: 'Stale' },
+			{ path: 'README.md', line: 1, body: 'Elsewhere' },
+		]),
+	});
+	const [result] = await node.execute.call(ctx);
+	const posts = ctx.calls.requests.slice(1);
+	assert.strictEqual(posts.length, 2);
+	assert.strictEqual(
+		posts[0].uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/6/discussions',
+	);
+	assert.strictEqual(posts[0].body.body, 'One');
+	assert.strictEqual(posts[0].body.position.new_line, 2);
+	assert.strictEqual(posts[1].body.position.line_range.end.new_line, 3);
+	const { json } = result[0];
+	assert.strictEqual(json.posted, 2);
+	assert.strictEqual(json.failed, 2);
+	assert.strictEqual(json.published, false);
+	assert.deepStrictEqual(
+		json.comments.map((comment) => [comment.status, comment.reason]),
+		[
+			['posted', undefined],
+			['posted', undefined],
+			['failed', 'line_not_in_diff'],
+			['failed', 'file_not_in_diff'],
+		],
+	);
+});
+
+test('postReview creates draft notes and publishes only those', async () => {
+	const node = new GitlabExtended();
+	const ctx = createReviewContext({
+		resource: 'mergeRequest',
+		operation: 'postReview',
+		mergeRequestIid: 6,
+		reviewSubmission: 'publishDrafts',
+		reviewComments: [
+			{ path: 'src/app.ts', line: 2, body: 'One' },
+			{ path: 'src/app.ts', line: 3, body: 'Two' },
+		],
+	});
+	const [result] = await node.execute.call(ctx);
+	const uris = ctx.calls.requests.slice(1).map((request) => request.uri);
+	const base = 'https://gitlab.example.com/api/v4/projects/1/merge_requests/6';
+	assert.deepStrictEqual(uris, [
+		`${base}/draft_notes`,
+		`${base}/draft_notes`,
+		`${base}/draft_notes/discussion/publish`,
+		`${base}/draft_notes/discussion/publish`,
+	]);
+	assert.strictEqual(ctx.calls.requests.at(-1).method, 'PUT');
+	assert.strictEqual(ctx.calls.requests[1].body.note, 'One');
+	assert.strictEqual(result[0].json.published, true);
+	assert.deepStrictEqual(
+		result[0].json.comments.map((comment) => comment.status),
+		['posted', 'posted'],
+	);
+});
+
+test('postReview reports drafts that could not be published', async () => {
+	const node = new GitlabExtended();
+	const ctx = createReviewContext({
+		resource: 'mergeRequest',
+		operation: 'postReview',
+		mergeRequestIid: 6,
+		reviewSubmission: 'publishDrafts',
+		reviewComments: [{ path: 'src/app.ts', line: 2, body: 'One' }],
+	});
+	const request = ctx.helpers.requestWithAuthentication;
+	ctx.helpers.requestWithAuthentication = async (name, options) => {
+		if (options.uri.endsWith('/publish')) throw new Error('Forbidden');
+		return request(name, options);
+	};
+	const [result] = await node.execute.call(ctx);
+	assert.strictEqual(result[0].json.published, false);
+	assert.strictEqual(result[0].json.failed, 1);
+	assert.deepStrictEqual(
+		[result[0].json.comments[0].status, result[0].json.comments[0].reason],
+		['failed', 'publish_failed'],
+	);
+});
+
+test('postReview keeps draft notes unpublished when requested', async () => {
+	const node = new GitlabExtended();
+	const ctx = createReviewContext({
+		resource: 'mergeRequest',
+		operation: 'postReview',
+		mergeRequestIid: 6,
+		reviewSubmission: 'drafts',
+		reviewComments: [{ path: 'src/app.ts', line: 2, body: 'One' }],
+	});
+	const [result] = await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.requests.length, 2);
+	assert.strictEqual(result[0].json.published, false);
+	assert.strictEqual(result[0].json.comments[0].status, 'drafted');
+});
+
+test('postReview validates the comments', async () => {
+	const node = new GitlabExtended();
+	const params = { resource: 'mergeRequest', operation: 'postReview', mergeRequestIid: 6 };
+	await assert.rejects(
+		() => node.execute.call(createReviewContext({ ...params, reviewComments: '{' })),
+		/reviewComments must be valid JSON/,
+	);
+	await assert.rejects(
+		() => node.execute.call(createReviewContext({ ...params, reviewComments: '{}' })),
+		/reviewComments must be a JSON array/,
+	);
+	await assert.rejects(
+		() =>
+			node.execute.call(
+				createReviewContext({ ...params, reviewComments: [{ path: 'a', line: 0, body: 'x' }] }),
+			),
+		/reviewComments\[0\] needs a path/,
+	);
+});
+
+test('postDiscussionNote appends a suggestion block', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'postDiscussionNote',
+		mergeRequestIid: 6,
+		startDiscussion: true,
+		body: 'Use const',
+		addSuggestion: true,
+		suggestionCode: 'const a = 1;',
+		suggestionLinesAbove: 1,
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(
+		ctx.calls.options.body.body,
+		'Use const\n\n```suggestion:-1+0\nconst a = 1;\n```',
+	);
+});
+
+test('applySuggestions applies one suggestion or a batch', async () => {
+	const node = new GitlabExtended();
+	let ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'applySuggestions',
+		suggestionIds: '12',
+		suggestionCommitMessage: 'Apply lint fix',
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'PUT');
+	assert.strictEqual(ctx.calls.options.uri, 'https://gitlab.example.com/api/v4/suggestions/12/apply');
+	assert.deepStrictEqual(ctx.calls.options.body, { commit_message: 'Apply lint fix' });
+
+	ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'applySuggestions',
+		suggestionIds: '12, 13',
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/suggestions/batch_apply',
+	);
+	assert.deepStrictEqual(ctx.calls.options.body, { ids: [12, 13] });
+});
+
+test('applySuggestions throws without suggestion IDs', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'applySuggestions',
+		suggestionIds: ' ',
+	});
+	await assert.rejects(() => node.execute.call(ctx), /suggestionIds must not be empty/);
+});
+
+test('merge request list operations use their endpoints', async () => {
+	const node = new GitlabExtended();
+	const cases = [
+		['getPipelines', 'pipelines'],
+		['getCommits', 'commits'],
+		['getVersions', 'versions'],
+		['getClosesIssues', 'closes_issues'],
+		['getParticipants', 'participants'],
+	];
+	for (const [operation, path] of cases) {
+		const ctx = createContext({
+			resource: 'mergeRequest',
+			operation,
+			mergeRequestIid: 5,
+			returnAll: false,
+			limit: 4,
+		});
+		await node.execute.call(ctx);
+		assert.strictEqual(ctx.calls.options.method, 'GET');
+		assert.strictEqual(
+			ctx.calls.options.uri,
+			`https://gitlab.example.com/api/v4/projects/1/merge_requests/5/${path}`,
+		);
+		assert.strictEqual(ctx.calls.options.qs.per_page, 4);
+	}
+});
+
+test('createPipeline and getVersion build correct endpoints', async () => {
+	const node = new GitlabExtended();
+	let ctx = createContext({ resource: 'mergeRequest', operation: 'createPipeline', mergeRequestIid: 5 });
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'POST');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/5/pipelines',
+	);
+
+	ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'getVersion',
+		mergeRequestIid: 5,
+		versionId: 17,
+	});
+	await node.execute.call(ctx);
+	assert.strictEqual(ctx.calls.options.method, 'GET');
+	assert.strictEqual(
+		ctx.calls.options.uri,
+		'https://gitlab.example.com/api/v4/projects/1/merge_requests/5/versions/17',
+	);
+});
+
+test('getVersion throws on invalid versionId', async () => {
+	const node = new GitlabExtended();
+	const ctx = createContext({
+		resource: 'mergeRequest',
+		operation: 'getVersion',
+		mergeRequestIid: 5,
+		versionId: 0,
+	});
+	await assert.rejects(() => node.execute.call(ctx), /versionId must be a positive number/);
+});
@@ -23,15 +23,68 @@ test('downloadArtifacts builds correct endpoint', async () => {
   const ctx = createContext({
     resource: 'pipeline',
     operation: 'downloadArtifacts',
-    pipelineId: 9,
     pipelineRef: 'main',
+    artifactJobName: 'build',
   });
-  await node.execute.call(ctx);
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return {
+      body: Buffer.from('PK'),
+      headers: {
+        'content-type': 'application/zip',
+        'content-disposition': 'attachment; filename="artifacts.zip"; filename*=UTF-8\'\'build%20artifacts.zip',
+      },
+    };
+  };
+  const result = await node.execute.call(ctx);
   assert.strictEqual(ctx.calls.options.method, 'GET');
   assert.strictEqual(
     ctx.calls.options.uri,
-    'https://gitlab.example.com/api/v4/projects/1/pipelines/9/jobs/artifacts/main/download'
+    'https://gitlab.example.com/api/v4/projects/1/jobs/artifacts/main/download'
   );
+  assert.deepStrictEqual(ctx.calls.options.qs, { job: 'build' });
+  assert.strictEqual(ctx.calls.options.json, false);
+  assert.strictEqual(ctx.calls.options.encoding, null);
+  const item = result[0][0];
+  assert.deepStrictEqual(item.json, { ref: 'main', job: 'build' });
+  assert.strictEqual(item.binary.data.fileName, 'build artifacts.zip');
+  assert.strictEqual(item.binary.data.mimeType, 'application/zip');
+  assert.strictEqual(Buffer.from(item.binary.data.data, 'base64').toString(), 'PK');
+});
+
+test('downloadArtifacts extracts a single path from the archive', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'downloadArtifacts',
+    pipelineRef: 'release/1.0',
+    artifactJobName: 'test',
+    artifactPath: 'coverage/report.xml',
+    binaryPropertyName: 'report',
+  });
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return { body: Buffer.from('<xml/>'), headers: {} };
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/jobs/artifacts/release%2F1.0/raw/coverage/report.xml'
+  );
+  assert.deepStrictEqual(ctx.calls.options.qs, { job: 'test' });
+  assert.strictEqual(result[0][0].binary.report.fileName, 'report.xml');
+  assert.strictEqual(result[0][0].json.artifactPath, 'coverage/report.xml');
+});
+
+test('downloadArtifacts requires a job name', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'downloadArtifacts',
+    pipelineRef: 'main',
+    artifactJobName: '',
+  });
+  await assert.rejects(node.execute.call(ctx), /artifactJobName must not be empty/);
 });
 
 test('create builds correct endpoint and body', async () => {
@@ -130,3 +183,120 @@ test('get throws on invalid pipelineId', async () => {
   await assert.rejects(() => node.execute.call(ctx), /pipelineId must be a positive number/);
 });
 
+
+test('create sends typed variables and inputs', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'create',
+    pipelineRef: 'main',
+    pipelineVariables: {
+      variable: [
+        { key: 'DEPLOY_ENV', value: 'staging', variableType: 'env_var' },
+        { key: 'CONFIG', value: 'a=1', variableType: 'file' },
+      ],
+    },
+    pipelineInputs: '{"environment":"staging","replicas":2}',
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/pipeline'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    ref: 'main',
+    inputs: { environment: 'staging', replicas: 2 },
+    variables: [
+      { key: 'DEPLOY_ENV', value: 'staging', variable_type: 'env_var' },
+      { key: 'CONFIG', value: 'a=1', variable_type: 'file' },
+    ],
+  });
+});
+
+test('create with trigger token calls the trigger API', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'create',
+    pipelineRef: 'main',
+    useTriggerToken: true,
+    triggerToken: 'glptt-123',
+    pipelineVariables: { variable: [{ key: 'DEPLOY_ENV', value: 'prod', variableType: 'env_var' }] },
+  });
+  ctx.helpers.requestWithAuthentication = async () => {
+    throw new Error('trigger requests must not use the credential');
+  };
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.strictEqual(ctx.calls.options.headers, undefined);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/trigger/pipeline'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    ref: 'main',
+    token: 'glptt-123',
+    variables: { DEPLOY_ENV: 'prod' },
+  });
+});
+
+test('create with trigger token does not need an access token', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'create',
+    authentication: 'custom',
+    server: 'https://gitlab.example.com/',
+    accessToken: '',
+    projectId: 1,
+    pipelineRef: 'main',
+    useTriggerToken: true,
+    triggerToken: 'glptt-123',
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/trigger/pipeline'
+  );
+  assert.deepStrictEqual(ctx.calls.options.body, { ref: 'main', token: 'glptt-123' });
+});
+
+test('create with trigger token rejects file variables', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'create',
+    pipelineRef: 'main',
+    useTriggerToken: true,
+    triggerToken: 'glptt-123',
+    pipelineVariables: { variable: [{ key: 'CONFIG', value: 'a=1', variableType: 'file' }] },
+  });
+  await assert.rejects(
+    node.execute.call(ctx),
+    /File variables are not supported with a trigger token/
+  );
+  assert.strictEqual(ctx.calls.options, undefined);
+});
+
+test('create rejects invalid inputs JSON', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'create',
+    pipelineRef: 'main',
+    pipelineInputs: '{not json',
+  });
+  await assert.rejects(node.execute.call(ctx), /pipelineInputs must be valid JSON/);
+});
+
+test('create with trigger token requires a token', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'create',
+    pipelineRef: 'main',
+    useTriggerToken: true,
+    triggerToken: '',
+  });
+  await assert.rejects(node.execute.call(ctx), /triggerToken must not be empty/);
+});
@@ -0,0 +1,149 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtended } from '../dist/nodes/GitlabExtended/GitlabExtended.node.js';
+import createContext from './helpers/createContext.js';
+
+function mockPipeline(ctx, statuses, jobs = [{ id: 1, name: 'build' }]) {
+  const requests = [];
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    requests.push(options);
+    if (options.uri.endsWith('/jobs')) {
+      return { body: jobs, headers: {} };
+    }
+    return { id: 7, status: statuses.shift() };
+  };
+  return requests;
+}
+
+test('waitForCompletion polls an existing pipeline until it finishes', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    waitPipelineSource: 'existing',
+    pipelineId: 7,
+    pollInterval: 0,
+    waitTimeout: 60,
+  });
+  const requests = mockPipeline(ctx, ['running', 'running', 'success']);
+  const result = await node.execute.call(ctx);
+  const polls = requests.filter((r) => r.uri.endsWith('/pipelines/7'));
+  assert.strictEqual(polls.length, 3);
+  assert.strictEqual(
+    requests.at(-1).uri,
+    'https://gitlab.example.com/api/v4/projects/1/pipelines/7/jobs'
+  );
+  assert.deepStrictEqual(result[0][0].json, {
+    id: 7,
+    status: 'success',
+    jobs: [{ id: 1, name: 'build' }],
+  });
+});
+
+test('waitForCompletion triggers a new pipeline first', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    waitPipelineSource: 'trigger',
+    pipelineRef: 'main',
+    pollInterval: 0,
+    waitTimeout: 60,
+  });
+  const requests = mockPipeline(ctx, ['created', 'manual']);
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(requests[0].method, 'POST');
+  assert.strictEqual(requests[0].uri, 'https://gitlab.example.com/api/v4/projects/1/pipeline');
+  assert.deepStrictEqual(requests[0].body, { ref: 'main' });
+  assert.strictEqual(result[0][0].json.status, 'manual');
+});
+
+test('waitForCompletion triggers a pipeline when the source is not set', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    pipelineRef: 'main',
+    pollInterval: 0,
+    waitTimeout: 60,
+  });
+  const requests = mockPipeline(ctx, ['success']);
+  await node.execute.call(ctx);
+  assert.strictEqual(requests[0].method, 'POST');
+  assert.strictEqual(requests[0].uri, 'https://gitlab.example.com/api/v4/projects/1/pipeline');
+});
+
+test('waitForCompletion sends the trigger token request without the credential', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    waitPipelineSource: 'trigger',
+    pipelineRef: 'main',
+    useTriggerToken: true,
+    triggerToken: 'glptt-123',
+    pollInterval: 0,
+    waitTimeout: 60,
+  });
+  const requests = mockPipeline(ctx, ['success']);
+  const triggered = [];
+  ctx.helpers.request = async (options) => {
+    triggered.push(options);
+    return { id: 7, status: 'created' };
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(triggered.length, 1);
+  assert.strictEqual(
+    triggered[0].uri,
+    'https://gitlab.example.com/api/v4/projects/1/trigger/pipeline'
+  );
+  assert.ok(requests.every((r) => r.method !== 'POST'));
+  assert.strictEqual(result[0][0].json.status, 'success');
+});
+
+test('waitForCompletion fails non-successful pipelines when requested', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    waitPipelineSource: 'existing',
+    pipelineId: 7,
+    pollInterval: 0,
+    waitTimeout: 60,
+    failOnNonSuccess: true,
+  });
+  mockPipeline(ctx, ['failed']);
+  await assert.rejects(node.execute.call(ctx), /Pipeline 7 finished with status "failed"/);
+});
+
+test('waitForCompletion stops after the timeout', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    waitPipelineSource: 'existing',
+    pipelineId: 7,
+    pollInterval: 5,
+    waitTimeout: 1,
+  });
+  const requests = mockPipeline(ctx, ['running', 'running']);
+  await assert.rejects(node.execute.call(ctx), /did not finish within 1 seconds/);
+  assert.strictEqual(requests.length, 2);
+});
+
+test('waitForCompletion checks the status once more at the deadline', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'pipeline',
+    operation: 'waitForCompletion',
+    waitPipelineSource: 'existing',
+    pipelineId: 7,
+    pollInterval: 5,
+    waitTimeout: 1,
+  });
+  mockPipeline(ctx, ['running', 'success']);
+  const started = Date.now();
+  const result = await node.execute.call(ctx);
+  assert.ok(Date.now() - started < 5000);
+  assert.strictEqual(result[0][0].json.status, 'success');
+});
@@ -90,3 +90,159 @@ test('create handles different HTTP methods and response formats', async () => {
   assert.strictEqual(ctx.calls.options.uri, 'https://gitlab.example.com/api/v4/projects/1/releases');
   assert.deepStrictEqual(ctx.calls.options.body, { tag_name: 'v1.0', name: '1.0', description: 'desc', assets: { links: [] } });
 });
+
+function mockSemverApi(ctx, { tags, commits = [] }) {
+  const requests = [];
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    requests.push(options);
+    if (options.method === 'GET' && options.uri.endsWith('/repository/tags')) {
+      return { body: tags.map((tag) => ({ name: tag })), headers: {} };
+    }
+    if (options.method === 'GET' && options.uri.endsWith('/repository/commits')) {
+      return { body: commits.map((message) => ({ message })), headers: {} };
+    }
+    return { created: options.body.tag_name };
+  };
+  return requests;
+}
+
+test('semverRelease derives the bump from conventional commits since the latest tag', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'auto',
+    releaseDescription: 'notes',
+  });
+  const requests = mockSemverApi(ctx, {
+    tags: ['v1.2.0', 'v1.10.0', 'v1.9.3', 'latest', 'v2.0.0-rc.1'],
+    commits: ['fix: typo', 'feat: new endpoint'],
+  });
+  const result = await node.execute.call(ctx);
+  const commitsRequest = requests.find((r) => r.uri.endsWith('/repository/commits'));
+  assert.strictEqual(commitsRequest.qs.ref_name, 'v2.0.0-rc.1..main');
+  const [tagRequest, releaseRequest] = requests.filter((r) => r.method === 'POST');
+  assert.strictEqual(tagRequest.uri, 'https://gitlab.example.com/api/v4/projects/1/repository/tags');
+  assert.deepStrictEqual(tagRequest.body, { tag_name: 'v2.0.0', ref: 'main' });
+  assert.strictEqual(releaseRequest.uri, 'https://gitlab.example.com/api/v4/projects/1/releases');
+  assert.deepStrictEqual(releaseRequest.body, {
+    tag_name: 'v2.0.0',
+    name: 'v2.0.0',
+    description: 'notes',
+  });
+  assert.deepStrictEqual(result[0][0].json, {
+    version: '2.0.0',
+    previousTag: 'v2.0.0-rc.1',
+    bump: 'minor',
+    tag: { created: 'v2.0.0' },
+    release: { created: 'v2.0.0' },
+  });
+});
+
+test('semverRelease applies an explicit bump with custom prefix and names', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'prerelease',
+    semverOptions: { tagPrefix: '', prereleaseId: 'beta', releaseName: 'Beta', tagMessage: 'beta' },
+  });
+  const requests = mockSemverApi(ctx, { tags: ['1.4.2', 'v9.0.0'] });
+  const result = await node.execute.call(ctx);
+  assert.ok(!requests.some((r) => r.uri.endsWith('/repository/commits')));
+  const [tagRequest, releaseRequest] = requests.filter((r) => r.method === 'POST');
+  assert.deepStrictEqual(tagRequest.body, { tag_name: '1.4.3-beta.0', ref: 'main', message: 'beta' });
+  assert.strictEqual(releaseRequest.body.name, 'Beta');
+  assert.strictEqual(result[0][0].json.previousTag, '1.4.2');
+});
+
+test('semverRelease starts from 0.0.0 without tags', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'minor',
+  });
+  const requests = mockSemverApi(ctx, { tags: [] });
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(requests.find((r) => r.method === 'POST').body.tag_name, 'v0.1.0');
+  assert.strictEqual(result[0][0].json.previousTag, undefined);
+});
+
+test('semverRelease fails when no commit requires a release', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'auto',
+  });
+  const requests = mockSemverApi(ctx, { tags: ['v1.0.0'], commits: ['chore: deps'] });
+  await assert.rejects(node.execute.call(ctx), /No conventional commits requiring a release were found since v1.0.0/);
+  assert.ok(!requests.some((r) => r.method === 'POST'));
+});
+
+test('semverRelease deletes the new tag when the release cannot be created', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'patch',
+  });
+  const requests = mockSemverApi(ctx, { tags: ['v1.0.0'] });
+  const mock = ctx.helpers.requestWithAuthentication;
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    if (options.method === 'POST' && options.uri.endsWith('/releases')) {
+      requests.push(options);
+      throw Object.assign(new Error('Release already exists'), { statusCode: 409 });
+    }
+    return mock(name, options);
+  };
+  await assert.rejects(node.execute.call(ctx), /Release already exists/);
+  const last = requests.at(-1);
+  assert.strictEqual(last.method, 'DELETE');
+  assert.strictEqual(
+    last.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/tags/v1.0.1'
+  );
+});
+
+test('semverRelease reports the leftover tag when it cannot be deleted', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'patch',
+  });
+  mockSemverApi(ctx, { tags: ['v1.0.0'] });
+  const mock = ctx.helpers.requestWithAuthentication;
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    if (options.method === 'DELETE' || options.uri.endsWith('/releases')) {
+      throw Object.assign(new Error('Forbidden'), { statusCode: 403 });
+    }
+    return mock(name, options);
+  };
+  await assert.rejects(
+    node.execute.call(ctx),
+    /Tag v1.0.1 was created but its release failed and the tag could not be deleted/
+  );
+});
+
+test('semverRelease rejects invalid assets before creating the tag', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'release',
+    operation: 'semverRelease',
+    releaseRef: 'main',
+    semverBump: 'patch',
+    assets: '{not json',
+  });
+  const requests = mockSemverApi(ctx, { tags: ['v1.0.0'] });
+  await assert.rejects(node.execute.call(ctx), /Invalid JSON in 'assets' parameter/);
+  assert.ok(!requests.some((r) => r.method === 'POST'));
+});
@@ -0,0 +1,119 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { GitlabExtended } from '../dist/nodes/GitlabExtended/GitlabExtended.node.js';
+import createContext from './helpers/createContext.js';
+
+test('compare builds correct endpoint and query', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'repository',
+    operation: 'compare',
+    compareFrom: 'v1.0.0',
+    compareTo: 'main',
+    compareStraight: true,
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'GET');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/compare'
+  );
+  assert.deepStrictEqual(ctx.calls.options.qs, { from: 'v1.0.0', to: 'main', straight: true });
+});
+
+test('compare requires both refs', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'repository',
+    operation: 'compare',
+    compareFrom: 'v1.0.0',
+    compareTo: '',
+  });
+  await assert.rejects(node.execute.call(ctx), /compareTo must not be empty/);
+});
+
+test('getContributors respects limit', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'repository',
+    operation: 'getContributors',
+    returnAll: false,
+    limit: 20,
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/contributors'
+  );
+  assert.strictEqual(ctx.calls.options.qs.per_page, 20);
+});
+
+test('downloadArchive returns the archive as binary data', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'repository',
+    operation: 'downloadArchive',
+    archiveFormat: 'zip',
+    archiveSha: 'v1.0.0',
+    archivePath: 'docs',
+  });
+  ctx.helpers.requestWithAuthentication = async (name, options) => {
+    ctx.calls.options = options;
+    return {
+      body: Buffer.from('PK'),
+      headers: {
+        'content-type': 'application/zip',
+        'content-disposition': 'attachment; filename="project-v1.0.0-docs.zip"',
+      },
+    };
+  };
+  const result = await node.execute.call(ctx);
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/archive.zip'
+  );
+  assert.deepStrictEqual(ctx.calls.options.qs, { sha: 'v1.0.0', path: 'docs' });
+  const item = result[0][0];
+  assert.deepStrictEqual(item.json, { format: 'zip', sha: 'v1.0.0', path: 'docs' });
+  assert.strictEqual(item.binary.data.fileName, 'project-v1.0.0-docs.zip');
+});
+
+test('generateChangelog builds the changelog query', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'repository',
+    operation: 'generateChangelog',
+    changelogVersion: '1.1.0',
+    changelogOptions: { from: 'v1.0.0', to: 'main', trailer: 'Changelog', branch: 'ignored' },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'GET');
+  assert.strictEqual(
+    ctx.calls.options.uri,
+    'https://gitlab.example.com/api/v4/projects/1/repository/changelog'
+  );
+  assert.deepStrictEqual(ctx.calls.options.qs, {
+    version: '1.1.0',
+    from: 'v1.0.0',
+    to: 'main',
+    trailer: 'Changelog',
+  });
+});
+
+test('commitChangelog posts the changelog body', async () => {
+  const node = new GitlabExtended();
+  const ctx = createContext({
+    resource: 'repository',
+    operation: 'commitChangelog',
+    changelogVersion: '1.1.0',
+    changelogOptions: { branch: 'main', file: 'CHANGELOG.md', message: 'Add changelog for 1.1.0' },
+  });
+  await node.execute.call(ctx);
+  assert.strictEqual(ctx.calls.options.method, 'POST');
+  assert.deepStrictEqual(ctx.calls.options.body, {
+    version: '1.1.0',
+    branch: 'main',
+    file: 'CHANGELOG.md',
+    message: 'Add changelog for 1.1.0',
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import {
+  parseSemver,
+  formatSemver,
+  compareSemver,
+  bumpSemver,
+  detectConventionalBump,
+} from '../dist/nodes/GitlabExtended/semver.js';
+
+const bump = (version, type, id) => formatSemver(bumpSemver(parseSemver(version), type, id));
+
+test('parseSemver honours the tag prefix', () => {
+  assert.deepStrictEqual(parseSemver('v1.2.3-rc.1', 'v'), {
+    major: 1,
+    minor: 2,
+    patch: 3,
+    prerelease: ['rc', 1],
+  });
+  assert.strictEqual(parseSemver('1.2.3', 'v'), undefined);
+  assert.strictEqual(parseSemver('v1.2', 'v'), undefined);
+  assert.strictEqual(parseSemver('release-2024', ''), undefined);
+});
+
+test('compareSemver follows semver precedence', () => {
+  const sorted = ['1.0.0', '1.0.0-rc.1', '1.0.0-alpha', '0.9.9', '1.0.0-rc.0', '1.0.0-alpha.1']
+    .map((v) => parseSemver(v))
+    .sort(compareSemver)
+    .map(formatSemver);
+  assert.deepStrictEqual(sorted, [
+    '0.9.9',
+    '1.0.0-alpha',
+    '1.0.0-alpha.1',
+    '1.0.0-rc.0',
+    '1.0.0-rc.1',
+    '1.0.0',
+  ]);
+});
+
+test('bumpSemver computes release versions', () => {
+  assert.strictEqual(bump('1.2.3', 'major'), '2.0.0');
+  assert.strictEqual(bump('1.2.3', 'minor'), '1.3.0');
+  assert.strictEqual(bump('1.2.3', 'patch'), '1.2.4');
+  assert.strictEqual(bump('2.0.0-rc.1', 'major'), '2.0.0');
+  assert.strictEqual(bump('1.3.0-rc.1', 'minor'), '1.3.0');
+  assert.strictEqual(bump('1.2.4-rc.1', 'patch'), '1.2.4');
+});
+
+test('bumpSemver computes prerelease versions', () => {
+  assert.strictEqual(bump('1.2.3', 'prerelease'), '1.2.4-rc.0');
+  assert.strictEqual(bump('1.2.4-rc.0', 'prerelease'), '1.2.4-rc.1');
+  assert.strictEqual(bump('1.2.4-beta.3', 'prerelease', 'rc'), '1.2.4-rc.0');
+});
+
+test('detectConventionalBump picks the highest release type', () => {
+  assert.strictEqual(detectConventionalBump(['chore: deps', 'docs: readme']), undefined);
+  assert.strictEqual(detectConventionalBump(['fix: crash', 'chore: deps']), 'patch');
+  assert.strictEqual(detectConventionalBump(['fix: crash', 'feat(api): add endpoint']), 'minor');
+  assert.strictEqual(detectConventionalBump(['feat!: drop node 16']), 'major');
+  assert.strictEqual(
+    detectConventionalBump(['refactor: config\n\nBREAKING CHANGE: new format']),
+    'major'
+  );
+});